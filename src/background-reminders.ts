@@ -1,26 +1,127 @@
-import { getPreferenceValues, showHUD, showToast, Toast } from "@raycast/api";
-import { completeHabit, listHabits, listSessions, postponeHabit, setHabitLastReminder, startHabitTimer } from "./lib/storage";
-import { formatRelativeDue, minutesBetween } from "./lib/time";
+import { getPreferenceValues, launchCommand, LaunchType, showHUD, showToast, Toast } from "@raycast/api";
+import { showUndoableToast } from "./lib/feedback";
+import { describePeriodProgress, PeriodProgress, periodPressure, periodProgress } from "./lib/period";
+import { compareByPriority, isMissedDeadline } from "./lib/priority";
+import { formatQuantity, isQuantityHabit, quickLogAmount } from "./lib/quantity";
+import { isOverdue, isReminderDue, reminderStyle } from "./lib/reminders";
+import { recordClosedDaySnapshot } from "./lib/score";
+import {
+  clearHeldReminders,
+  completeHabit,
+  holdReminders,
+  listCompletions,
+  listHabits,
+  listHeldReminders,
+  listSessions,
+  logQuantity,
+  postponeHabit,
+  postponeHabits,
+  setHabitsLastReminder,
+  startHabitTimer,
+} from "./lib/storage";
+import { formatRelativeDue, isWithinQuietHours, parseTimeWindow, safeInteger } from "./lib/time";
 import { Habit, RayminderPreferences } from "./lib/types";
 
-function safeInteger(raw: string | undefined, fallback: number): number {
-  const parsed = Number.parseInt(raw ?? "", 10);
-  if (Number.isNaN(parsed) || parsed <= 0) {
-    return fallback;
+/** From this period pressure on, a weekly or monthly habit is announced as falling behind. */
+const BEHIND_PRESSURE = 0.5;
+
+function overdueTitle(habit: Habit, now: Date, progress?: PeriodProgress): string {
+  if (isMissedDeadline(habit, now)) {
+    return `Missed deadline: ${habit.name}`;
+  }
+  if (progress && periodPressure(progress) >= BEHIND_PRESSURE) {
+    return `Falling behind: ${habit.name}`;
   }
-  return parsed;
+  return `Overdue: ${habit.name}`;
 }
 
-function shouldNotify(habit: Habit, now: Date, throttleMinutes: number): boolean {
-  if (new Date(habit.dueAt).getTime() > now.getTime()) {
-    return false;
-  }
+async function openDashboard() {
+  await launchCommand({ name: "dashboard", type: LaunchType.UserInitiated });
+}
+
+async function showMissedSummary(missed: Habit[], now: Date): Promise<void> {
+  await setHabitsLastReminder(missed.map((habit) => habit.id), now.toISOString());
+
+  const toast = await showToast({
+    style: Toast.Style.Failure,
+    title: `You missed ${missed.length} ${missed.length === 1 ? "item" : "items"} during quiet hours`,
+    message: missed.map((habit) => habit.name).join(", "),
+  });
+
+  toast.primaryAction = {
+    title: "Open Dashboard",
+    onAction: openDashboard,
+  };
+}
 
-  if (!habit.lastReminderAt) {
-    return true;
+async function showReminder(
+  habit: Habit,
+  now: Date,
+  postponeMinutes: number,
+  progress: PeriodProgress | undefined,
+): Promise<void> {
+  const periodText = progress && progress.period !== "day" ? ` · ${describePeriodProgress(progress)}` : "";
+  const toast = await showToast({
+    style: Toast.Style.Failure,
+    title: overdueTitle(habit, now, progress),
+    message: `${formatRelativeDue(habit.dueAt, now)}${periodText} · choose an action`,
+  });
+
+  if (isQuantityHabit(habit)) {
+    const amount = quickLogAmount(habit);
+    toast.primaryAction = {
+      title: `Log ${formatQuantity(amount, habit.quantity.unit)}`,
+      onAction: async () => {
+        const { undoId } = await logQuantity(habit.id, amount);
+        await showUndoableToast({ title: `Logged ${formatQuantity(amount, habit.quantity.unit)}: ${habit.name}`, undoId });
+      },
+    };
+  } else if (habit.expectedDurationMinutes && habit.expectedDurationMinutes > 0) {
+    toast.primaryAction = {
+      title: "Start Timer",
+      onAction: async () => {
+        await startHabitTimer(habit.id);
+        await showHUD(`Timer started: ${habit.name}`);
+      },
+    };
+  } else {
+    toast.primaryAction = {
+      title: "Mark Complete",
+      onAction: async () => {
+        const { undoId } = await completeHabit(habit.id, { source: "manual" });
+        await showUndoableToast({ title: `Completed: ${habit.name}`, undoId });
+      },
+    };
   }
 
-  return minutesBetween(habit.lastReminderAt, now) >= throttleMinutes;
+  toast.secondaryAction = {
+    title: `Postpone ${postponeMinutes}m`,
+    onAction: async () => {
+      const { undoId } = await postponeHabit(habit.id, postponeMinutes);
+      await showUndoableToast({ title: `Postponed: ${habit.name}`, undoId });
+    },
+  };
+}
+
+/** One toast for everything that is due for a reminder, most important first. */
+async function showDigest(habits: Habit[], now: Date, postponeMinutes: number): Promise<void> {
+  const toast = await showToast({
+    style: Toast.Style.Failure,
+    title: `${habits.length} items overdue`,
+    message: habits.map((habit) => `${habit.name} (${formatRelativeDue(habit.dueAt, now)})`).join(", "),
+  });
+
+  toast.primaryAction = {
+    title: "Open Dashboard",
+    onAction: openDashboard,
+  };
+  toast.secondaryAction = {
+    title: `Postpone All ${postponeMinutes}m`,
+    onAction: async () => {
+      const { undoId } = await postponeHabits(habits.map((habit) => habit.id), postponeMinutes);
+      await showUndoableToast({ title: `Postponed ${habits.length} items`, undoId });
+    },
+  };
 }
 
 export default async function Command() {
@@ -30,51 +131,65 @@ export default async function Command() {
     const reminderThrottleMinutes = safeInteger(preferences.reminderThrottleMinutes, 5);
 
     const now = new Date();
-    const [habits, sessions] = await Promise.all([listHabits(false), listSessions()]);
-    const runningHabits = new Set(sessions.map((session) => session.habitId));
+    await recordClosedDaySnapshot(now);
 
-    const candidate = habits
-      .filter((habit) => !runningHabits.has(habit.id))
-      .filter((habit) => shouldNotify(habit, now, reminderThrottleMinutes))
-      .sort((a, b) => new Date(a.dueAt).getTime() - new Date(b.dueAt).getTime())[0];
+    const inQuietHours = isWithinQuietHours(
+      now,
+      parseTimeWindow(preferences.quietHoursWeekday),
+      parseTimeWindow(preferences.quietHoursWeekend),
+    );
+    const [habits, sessions, held, completions] = await Promise.all([
+      listHabits(false),
+      listSessions(),
+      listHeldReminders(),
+      listCompletions(),
+    ]);
+    const runningHabits = new Set(sessions.map((session) => session.habitId));
+    const idleHabits = habits.filter((habit) => !runningHabits.has(habit.id));
+    const progressByHabit = new Map(idleHabits.map((habit) => [habit.id, periodProgress(habit, completions, now)]));
+    const pressureOf = (habit: Habit) => {
+      const progress = progressByHabit.get(habit.id);
+      return progress ? periodPressure(progress) : 0;
+    };
 
-    if (!candidate) {
-      return;
+    if (inQuietHours) {
+      const silenced = idleHabits.filter(
+        (habit) => !habit.ignoreQuietHours && reminderStyle(habit) !== "silent" && isOverdue(habit, now),
+      );
+      await holdReminders(silenced.map((habit) => habit.id), now.toISOString());
+    } else if (held.length > 0) {
+      await clearHeldReminders();
+      const heldIds = new Set(held.map((entry) => entry.habitId));
+      const missed = idleHabits.filter((habit) => heldIds.has(habit.id) && isOverdue(habit, now));
+      if (missed.length > 0) {
+        await showMissedSummary(missed, now);
+        return;
+      }
     }
 
-    await setHabitLastReminder(candidate.id, now.toISOString());
+    const reminders = idleHabits
+      .filter((habit) => !(inQuietHours && !habit.ignoreQuietHours))
+      .filter((habit) => isReminderDue(habit, now, reminderThrottleMinutes, pressureOf(habit)))
+      .sort(compareByPriority);
+    const toastReminders = reminders.filter((habit) => reminderStyle(habit) === "toast");
+    const hudReminders = reminders.filter((habit) => reminderStyle(habit) === "hud");
 
-    const toast = await showToast({
-      style: Toast.Style.Failure,
-      title: `Overdue: ${candidate.name}`,
-      message: `${formatRelativeDue(candidate.dueAt, now)} · choose an action`,
-    });
-
-    if (candidate.expectedDurationMinutes && candidate.expectedDurationMinutes > 0) {
-      toast.primaryAction = {
-        title: "Start Timer",
-        onAction: async () => {
-          await startHabitTimer(candidate.id);
-          await showHUD(`Timer started: ${candidate.name}`);
-        },
-      };
-    } else {
-      toast.primaryAction = {
-        title: "Mark Complete",
-        onAction: async () => {
-          await completeHabit(candidate.id, { source: "manual" });
-          await showHUD(`Completed: ${candidate.name}`);
-        },
-      };
+    // Only one message fits per run; HUD reminders that lose out to a toast are shown on the next run.
+    if (toastReminders.length > 0) {
+      await setHabitsLastReminder(toastReminders.map((habit) => habit.id), now.toISOString());
+      if (toastReminders.length === 1) {
+        await showReminder(toastReminders[0], now, defaultPostponeMinutes, progressByHabit.get(toastReminders[0].id));
+      } else {
+        await showDigest(toastReminders, now, defaultPostponeMinutes);
+      }
+    } else if (hudReminders.length > 0) {
+      await setHabitsLastReminder(hudReminders.map((habit) => habit.id), now.toISOString());
+      await showHUD(
+        hudReminders.length === 1
+          ? overdueTitle(hudReminders[0], now, progressByHabit.get(hudReminders[0].id))
+          : `Overdue: ${hudReminders.map((habit) => habit.name).join(", ")}`,
+      );
     }
-
-    toast.secondaryAction = {
-      title: `Postpone ${defaultPostponeMinutes}m`,
-      onAction: async () => {
-        await postponeHabit(candidate.id, defaultPostponeMinutes);
-        await showHUD(`Postponed: ${candidate.name}`);
-      },
-    };
   } catch (error) {
     await showToast({
       style: Toast.Style.Failure,
@@ -0,0 +1,192 @@
+import {
+  Action,
+  ActionPanel,
+  Alert,
+  confirmAlert,
+  Form,
+  Icon,
+  List,
+  showToast,
+  Toast,
+  useNavigation,
+} from "@raycast/api";
+import { useCallback, useEffect, useState } from "react";
+import { showUndoableToast } from "../lib/feedback";
+import { archivedSince, deleteHabitPermanently, listHabits, purgeArchivedBefore, restoreHabit } from "../lib/storage";
+import { addDays, describeSchedule } from "../lib/time";
+import { Habit } from "../lib/types";
+
+interface ArchivedHabitsProps {
+  onChanged?: () => Promise<void> | void;
+}
+
+interface PurgeFormProps {
+  onPurged: () => Promise<void>;
+}
+
+function PurgeArchivedForm({ onPurged }: PurgeFormProps) {
+  const { pop } = useNavigation();
+
+  async function onSubmit(values: { cutoff: Date | null }) {
+    if (!values.cutoff) {
+      await showToast({ style: Toast.Style.Failure, title: "Pick a date" });
+      return;
+    }
+
+    const cutoff = values.cutoff;
+    const confirmed = await confirmAlert({
+      title: "Purge archived items?",
+      message: `Everything archived before ${cutoff.toLocaleDateString()} is deleted with its completions and postpones.`,
+      primaryAction: {
+        title: "Purge",
+        style: Alert.ActionStyle.Destructive,
+      },
+    });
+    if (!confirmed) {
+      return;
+    }
+
+    try {
+      const removed = await purgeArchivedBefore(cutoff);
+      await showToast({
+        style: Toast.Style.Success,
+        title: `Purged ${removed} archived ${removed === 1 ? "item" : "items"}`,
+      });
+      await onPurged();
+      pop();
+    } catch (error) {
+      await showToast({
+        style: Toast.Style.Failure,
+        title: "Unable to purge",
+        message: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  return (
+    <Form
+      navigationTitle="Purge Archived Items"
+      actions={
+        <ActionPanel>
+          <Action.SubmitForm title="Purge" icon={Icon.Trash} style={Action.Style.Destructive} onSubmit={onSubmit} />
+        </ActionPanel>
+      }
+    >
+      <Form.Description text="Permanently deletes items archived before this date, including their history." />
+      <Form.DatePicker
+        id="cutoff"
+        title="Archived Before"
+        type={Form.DatePicker.Type.Date}
+        defaultValue={addDays(new Date(), -30)}
+      />
+    </Form>
+  );
+}
+
+export function ArchivedHabits({ onChanged }: ArchivedHabitsProps) {
+  const [isLoading, setIsLoading] = useState(true);
+  const [archived, setArchived] = useState<Habit[]>([]);
+
+  const refresh = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const habits = await listHabits(true);
+      setArchived(
+        habits
+          .filter((habit) => habit.archived)
+          .sort((a, b) => new Date(archivedSince(b)).getTime() - new Date(archivedSince(a)).getTime()),
+      );
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh().catch((error) =>
+      showToast({
+        style: Toast.Style.Failure,
+        title: "Unable to load archived items",
+        message: error instanceof Error ? error.message : String(error),
+      }),
+    );
+  }, [refresh]);
+
+  async function afterChange() {
+    await refresh();
+    if (onChanged) {
+      await onChanged();
+    }
+  }
+
+  async function restore(habit: Habit) {
+    try {
+      const { undoId } = await restoreHabit(habit.id);
+      await showUndoableToast({ title: `${habit.name} restored`, undoId, onUndone: afterChange });
+      await afterChange();
+    } catch (error) {
+      await showToast({
+        style: Toast.Style.Failure,
+        title: "Unable to restore",
+        message: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  async function remove(habit: Habit) {
+    const confirmed = await confirmAlert({
+      title: `Delete ${habit.name} permanently?`,
+      message: "Its completions and postpones are deleted too. This cannot be undone.",
+      primaryAction: {
+        title: "Delete",
+        style: Alert.ActionStyle.Destructive,
+      },
+    });
+    if (!confirmed) {
+      return;
+    }
+
+    try {
+      await deleteHabitPermanently(habit.id);
+      await showToast({ style: Toast.Style.Success, title: `${habit.name} deleted` });
+      await afterChange();
+    } catch (error) {
+      await showToast({
+        style: Toast.Style.Failure,
+        title: "Unable to delete",
+        message: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  return (
+    <List isLoading={isLoading} navigationTitle="Archived Items" searchBarPlaceholder="Search archived items">
+      <List.EmptyView icon={Icon.Tray} title="No archived items" />
+      {archived.map((habit) => (
+        <List.Item
+          key={habit.id}
+          icon={habit.type === "habit" ? Icon.Repeat : habit.type === "avoid" ? Icon.Leaf : Icon.CheckList}
+          title={habit.name}
+          subtitle={habit.type === "task" ? "task" : describeSchedule(habit.schedule, habit.intervalMinutes)}
+          accessories={[{ text: `archived ${new Date(archivedSince(habit)).toLocaleDateString()}` }]}
+          actions={
+            <ActionPanel>
+              <Action title="Restore" icon={Icon.ArrowCounterClockwise} onAction={() => restore(habit)} />
+              <Action
+                title="Delete Permanently"
+                icon={Icon.Trash}
+                style={Action.Style.Destructive}
+                shortcut={{ modifiers: ["cmd", "shift"], key: "delete" }}
+                onAction={() => remove(habit)}
+              />
+              <Action.Push
+                title="Purge Archived Before…"
+                icon={Icon.Calendar}
+                target={<PurgeArchivedForm onPurged={afterChange} />}
+              />
+            </ActionPanel>
+          }
+        />
+      ))}
+    </List>
+  );
+}
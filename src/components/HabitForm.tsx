@@ -1,19 +1,65 @@
 import { Action, ActionPanel, Form, Toast, showToast, useNavigation } from "@raycast/api";
-import { useState } from "react";
-import { upsertHabit } from "../lib/storage";
-import { Habit, HabitDraft } from "../lib/types";
+import { useEffect, useMemo, useState } from "react";
+import { listHabits, upsertHabit } from "../lib/storage";
+import { RESCHEDULE_MODE_LABELS } from "../lib/cadence";
+import { checklistToText, parseChecklist } from "../lib/checklist";
+import { TARGET_PERIOD_LABELS } from "../lib/period";
+import { PRIORITIES, PRIORITY_LABELS } from "../lib/priority";
+import { parseQuantity } from "../lib/quantity";
+import { REMINDER_STYLE_LABELS } from "../lib/reminders";
+import { collectCategories, collectTags, normalizeTags, parseTags } from "../lib/tags";
+import { approximateIntervalMinutes, minutesBetween, parseClockTime, WEEKDAY_LABELS } from "../lib/time";
+import {
+  Habit,
+  HabitDraft,
+  HabitQuantity,
+  HabitSchedule,
+  Priority,
+  ReminderPolicy,
+  ReminderStyle,
+  RescheduleMode,
+  ScheduleKind,
+  TargetPeriod,
+  TrackableType,
+} from "../lib/types";
+
+const AVOID_INTERVAL_MINUTES = 24 * 60;
 
 type HabitFormValues = {
   name: string;
-  type: "habit" | "task";
-  intervalMinutes: string;
-  targetRepetitionsPerDay: string;
-  expectedDurationMinutes: string;
+  type: TrackableType;
+  scheduleKind?: ScheduleKind;
+  rescheduleMode?: RescheduleMode;
+  deadline?: Date | null;
+  priority: Priority;
+  scoreWeight: string;
+  intervalMinutes?: string;
+  scheduleTimes?: string;
+  scheduleWeekdays?: string[];
+  scheduleDayOfMonth?: string;
+  targetRepetitionsPerDay?: string;
+  targetPeriod?: TargetPeriod;
+  quantityUnit?: string;
+  quantityTarget?: string;
+  expectedDurationMinutes?: string;
   notes: string;
+  ignoreQuietHours?: boolean;
+  reminderStyle?: ReminderStyle;
+  reminderThrottleMinutes?: string;
+  maxReminders?: string;
+  escalateAfterMinutes?: string;
+  escalatedThrottleMinutes?: string;
+  category: string;
+  tags: string[];
+  newTags: string;
+  checklist?: string;
+  checklistAutoComplete?: boolean;
 };
 
 interface HabitFormProps {
   habit?: Habit;
+  /** Prefills a new item, e.g. from a parsed quick-add phrase. Ignored when editing `habit`. */
+  draft?: HabitDraft;
   onSaved?: () => Promise<void> | void;
 }
 
@@ -25,9 +71,99 @@ function parsePositiveInteger(raw: string, fallback: number): number {
   return parsed;
 }
 
-export function HabitForm({ habit, onSaved }: HabitFormProps) {
+function optionalNumber(value: number | undefined): string {
+  return value === undefined ? "" : String(value);
+}
+
+function parseOptionalInteger(raw: string | undefined): number | undefined {
+  return raw?.trim() ? parsePositiveInteger(raw, 1) : undefined;
+}
+
+function buildQuantity(values: HabitFormValues): HabitQuantity | string | undefined {
+  const unit = values.quantityUnit?.trim() ?? "";
+  const rawTarget = values.quantityTarget?.trim() ?? "";
+  if (!unit && !rawTarget) {
+    return undefined;
+  }
+  const dailyTarget = parseQuantity(rawTarget);
+  if (!unit || dailyTarget === undefined) {
+    return "Set both a unit and a positive daily amount, or neither";
+  }
+  return { unit, dailyTarget };
+}
+
+function buildReminderPolicy(values: HabitFormValues): ReminderPolicy | string | undefined {
+  const policy: ReminderPolicy = {
+    style: values.reminderStyle === "toast" ? undefined : values.reminderStyle,
+    throttleMinutes: parseOptionalInteger(values.reminderThrottleMinutes),
+    maxReminders: parseOptionalInteger(values.maxReminders),
+    escalateAfterMinutes: parseOptionalInteger(values.escalateAfterMinutes),
+    escalatedThrottleMinutes: parseOptionalInteger(values.escalatedThrottleMinutes),
+  };
+  if ((policy.escalateAfterMinutes === undefined) !== (policy.escalatedThrottleMinutes === undefined)) {
+    return "Set both the escalation delay and the escalated interval, or neither";
+  }
+  return Object.values(policy).some((value) => value !== undefined) ? policy : undefined;
+}
+
+function buildSchedule(values: HabitFormValues): HabitSchedule | string {
+  if (values.scheduleKind === "interval") {
+    return { kind: "interval" };
+  }
+
+  const times = (values.scheduleTimes ?? "")
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter(Boolean);
+  if (times.length === 0 || times.some((time) => !parseClockTime(time))) {
+    return "Times must be HH:MM, separated by commas";
+  }
+
+  if (values.scheduleKind === "daily") {
+    return { kind: "daily", times };
+  }
+
+  if (values.scheduleKind === "weekly") {
+    const weekdays = (values.scheduleWeekdays ?? []).map((day) => Number.parseInt(day, 10));
+    if (weekdays.length === 0) {
+      return "Pick at least one weekday";
+    }
+    return { kind: "weekly", weekdays, times };
+  }
+
+  const dayOfMonth = Number.parseInt(values.scheduleDayOfMonth ?? "", 10);
+  if (Number.isNaN(dayOfMonth) || dayOfMonth < 1 || dayOfMonth > 31) {
+    return "Day of month must be between 1 and 31";
+  }
+  return { kind: "monthly", dayOfMonth, times };
+}
+
+export function HabitForm({ habit, draft: initialDraft, onSaved }: HabitFormProps) {
   const { pop } = useNavigation();
   const [isSaving, setIsSaving] = useState(false);
+  const defaults: HabitDraft | undefined = habit ?? initialDraft;
+  const [type, setType] = useState<TrackableType>(defaults?.type ?? "habit");
+  const [scheduleKind, setScheduleKind] = useState<ScheduleKind>(defaults?.schedule?.kind ?? "interval");
+  const existingSchedule = defaults?.schedule;
+  const [knownTags, setKnownTags] = useState<string[]>([]);
+  const [knownCategories, setKnownCategories] = useState<string[]>([]);
+
+  useEffect(() => {
+    listHabits(true)
+      .then((habits) => {
+        setKnownTags(collectTags(habits));
+        setKnownCategories(collectCategories(habits));
+      })
+      .catch((error) =>
+        showToast({
+          style: Toast.Style.Failure,
+          title: "Unable to load tags",
+          message: error instanceof Error ? error.message : String(error),
+        }),
+      );
+  }, []);
+
+  const tagOptions = useMemo(() => normalizeTags([...knownTags, ...(defaults?.tags ?? [])]).sort(), [knownTags, defaults]);
 
   async function onSubmit(values: HabitFormValues) {
     const name = values.name.trim();
@@ -39,19 +175,84 @@ export function HabitForm({ habit, onSaved }: HabitFormProps) {
       return;
     }
 
-    const intervalMinutes = parsePositiveInteger(values.intervalMinutes, 60);
-    const repetitions = parsePositiveInteger(values.targetRepetitionsPerDay, 1);
-    const expectedDurationMinutes = values.expectedDurationMinutes.trim()
+    if (values.type === "task" && !values.deadline) {
+      await showToast({
+        style: Toast.Style.Failure,
+        title: "Pick a deadline for the task",
+      });
+      return;
+    }
+
+    const schedule: HabitSchedule | string = values.type === "habit" ? buildSchedule(values) : { kind: "interval" };
+    if (typeof schedule === "string") {
+      await showToast({
+        style: Toast.Style.Failure,
+        title: "Invalid schedule",
+        message: schedule,
+      });
+      return;
+    }
+
+    const deadline = values.type === "task" && values.deadline ? values.deadline.toISOString() : undefined;
+    // A task's interval is its lead time, which scales the overdue penalty in the score.
+    // Avoid items are never due, so their interval only spaces out the placeholder due time.
+    const intervalMinutes = deadline
+      ? habit?.deadline === deadline
+        ? habit.intervalMinutes
+        : Math.max(1, minutesBetween(new Date(), deadline))
+      : values.type === "avoid"
+        ? AVOID_INTERVAL_MINUTES
+        : (approximateIntervalMinutes(schedule) ??
+          parsePositiveInteger(values.intervalMinutes ?? "", defaults?.intervalMinutes ?? 60));
+    const repetitions = parsePositiveInteger(values.targetRepetitionsPerDay ?? "", 1);
+    const expectedDurationMinutes = values.expectedDurationMinutes?.trim()
       ? parsePositiveInteger(values.expectedDurationMinutes, 1)
       : undefined;
 
+    const reminderPolicy = values.type === "avoid" ? undefined : buildReminderPolicy(values);
+    if (typeof reminderPolicy === "string") {
+      await showToast({
+        style: Toast.Style.Failure,
+        title: "Invalid reminder settings",
+        message: reminderPolicy,
+      });
+      return;
+    }
+
+    const quantity = values.type === "habit" ? buildQuantity(values) : undefined;
+    if (typeof quantity === "string") {
+      await showToast({
+        style: Toast.Style.Failure,
+        title: "Invalid amount target",
+        message: quantity,
+      });
+      return;
+    }
+
+    const tags = normalizeTags([...values.tags, ...parseTags(values.newTags)]);
+    const checklist = parseChecklist(values.checklist ?? "", defaults?.checklist);
     const draft: HabitDraft = {
       name,
       type: values.type,
       intervalMinutes,
+      schedule: schedule.kind === "interval" ? undefined : schedule,
       targetRepetitionsPerDay: repetitions,
       expectedDurationMinutes,
       notes: values.notes.trim() || undefined,
+      ignoreQuietHours: values.ignoreQuietHours || undefined,
+      category: values.category.trim() || undefined,
+      tags: tags.length > 0 ? tags : undefined,
+      priority: values.priority === "normal" ? undefined : values.priority,
+      deadline,
+      checklist,
+      checklistAutoComplete: checklist && values.checklistAutoComplete ? true : undefined,
+      scoreWeight: values.scoreWeight === "1" ? undefined : parsePositiveInteger(values.scoreWeight, 1),
+      reminderPolicy,
+      rescheduleMode:
+        values.type !== "habit" || values.rescheduleMode === "from-completion" ? undefined : values.rescheduleMode,
+      targetPeriod:
+        values.type !== "habit" || quantity || values.targetPeriod === "day" ? undefined : values.targetPeriod,
+      quantity,
     };
 
     setIsSaving(true);
@@ -87,32 +288,214 @@ export function HabitForm({ habit, onSaved }: HabitFormProps) {
       }
     >
       <Form.Description
-        text="Habits recur after completion. Tasks are one-time and auto-archive when completed. Interval sets the next due time from now."
+        text="Habits recur after completion. Tasks are one-time, due at their deadline, and auto-archive when completed. Avoid items track slips instead of completions and are never due. Interval schedules set the next due time from now; calendar schedules use fixed times."
       />
-      <Form.TextField id="name" title="Name" placeholder="Drink water" defaultValue={habit?.name} />
-      <Form.Dropdown id="type" title="Type" defaultValue={habit?.type ?? "habit"}>
+      <Form.TextField id="name" title="Name" placeholder="Drink water" defaultValue={defaults?.name} />
+      <Form.Dropdown id="type" title="Type" value={type} onChange={(value) => setType(value as TrackableType)}>
         <Form.Dropdown.Item value="habit" title="Habit" />
         <Form.Dropdown.Item value="task" title="Task" />
+        <Form.Dropdown.Item value="avoid" title="Avoid" />
+      </Form.Dropdown>
+      <Form.Dropdown id="priority" title="Priority" defaultValue={defaults?.priority ?? "normal"}>
+        {PRIORITIES.map((priority) => (
+          <Form.Dropdown.Item key={priority} value={priority} title={PRIORITY_LABELS[priority]} />
+        ))}
+      </Form.Dropdown>
+      {type === "task" && (
+        <Form.DatePicker
+          id="deadline"
+          title="Deadline"
+          defaultValue={
+            defaults?.deadline ? new Date(defaults.deadline) : habit?.type === "task" ? new Date(habit.dueAt) : undefined
+          }
+        />
+      )}
+      {type === "habit" && (
+        <>
+          <Form.Dropdown
+            id="scheduleKind"
+            title="Schedule"
+            value={scheduleKind}
+            onChange={(value) => setScheduleKind(value as ScheduleKind)}
+          >
+            <Form.Dropdown.Item value="interval" title="Every N Minutes" />
+            <Form.Dropdown.Item value="daily" title="Daily at Times" />
+            <Form.Dropdown.Item value="weekly" title="Weekly on Days" />
+            <Form.Dropdown.Item value="monthly" title="Monthly on Date" />
+          </Form.Dropdown>
+          {scheduleKind === "interval" ? (
+            <Form.TextField
+              id="intervalMinutes"
+              title="Interval (minutes)"
+              placeholder="60"
+              defaultValue={defaults ? String(defaults.intervalMinutes) : "60"}
+            />
+          ) : (
+            <Form.TextField
+              id="scheduleTimes"
+              title="Times (HH:MM, comma separated)"
+              placeholder="09:30, 14:00"
+              defaultValue={existingSchedule && existingSchedule.kind !== "interval" ? existingSchedule.times.join(", ") : "09:00"}
+            />
+          )}
+          {scheduleKind === "weekly" && (
+            <Form.TagPicker
+              id="scheduleWeekdays"
+              title="Weekdays"
+              defaultValue={
+                existingSchedule?.kind === "weekly" ? existingSchedule.weekdays.map(String) : ["1", "2", "3", "4", "5"]
+              }
+            >
+              {WEEKDAY_LABELS.map((label, weekday) => (
+                <Form.TagPicker.Item key={label} value={String(weekday)} title={label} />
+              ))}
+            </Form.TagPicker>
+          )}
+          {scheduleKind === "monthly" && (
+            <Form.TextField
+              id="scheduleDayOfMonth"
+              title="Day of Month"
+              placeholder="1"
+              defaultValue={existingSchedule?.kind === "monthly" ? String(existingSchedule.dayOfMonth) : "1"}
+            />
+          )}
+          <Form.Dropdown
+            id="rescheduleMode"
+            title="Rescheduling"
+            info="From completion: the next occurrence counts from when you complete it. Fixed cadence: stay on the original grid and skip missed occurrences. Catch up: stay on the grid and queue missed occurrences."
+            defaultValue={defaults?.rescheduleMode ?? "from-completion"}
+          >
+            {(Object.keys(RESCHEDULE_MODE_LABELS) as RescheduleMode[]).map((mode) => (
+              <Form.Dropdown.Item key={mode} value={mode} title={RESCHEDULE_MODE_LABELS[mode]} />
+            ))}
+          </Form.Dropdown>
+        </>
+      )}
+      {type !== "avoid" && (
+        <Form.TextField
+          id="targetRepetitionsPerDay"
+          title={type === "habit" ? "Target Repetitions" : "Daily Repetitions"}
+          placeholder="1"
+          defaultValue={defaults ? String(defaults.targetRepetitionsPerDay) : "1"}
+        />
+      )}
+      {type === "habit" && (
+        <>
+          <Form.Dropdown
+            id="targetPeriod"
+            title="Per"
+            info="Count the target repetitions per day, per week (Monday to Sunday) or per month, e.g. 3 per week. Measurable habits always track a daily amount."
+            defaultValue={defaults?.targetPeriod ?? "day"}
+          >
+            {(Object.keys(TARGET_PERIOD_LABELS) as TargetPeriod[]).map((period) => (
+              <Form.Dropdown.Item key={period} value={period} title={TARGET_PERIOD_LABELS[period]} />
+            ))}
+          </Form.Dropdown>
+          <Form.TextField
+            id="quantityUnit"
+            title="Unit (optional)"
+            placeholder="ml, pages, steps"
+            info="Makes the habit measurable: log amounts instead of repetitions and score them against the daily amount."
+            defaultValue={defaults?.quantity?.unit ?? ""}
+          />
+          <Form.TextField
+            id="quantityTarget"
+            title="Daily Amount"
+            placeholder="2000"
+            defaultValue={optionalNumber(defaults?.quantity?.dailyTarget)}
+          />
+        </>
+      )}
+      {type !== "avoid" && (
+        <Form.TextField
+          id="expectedDurationMinutes"
+          title="Expected Duration (minutes, optional)"
+          placeholder="20"
+          defaultValue={defaults?.expectedDurationMinutes ? String(defaults.expectedDurationMinutes) : ""}
+        />
+      )}
+      <Form.Dropdown
+        id="scoreWeight"
+        title="Score Weight"
+        info="How much this item counts in the daily score average compared to others."
+        defaultValue={String(defaults?.scoreWeight ?? 1)}
+      >
+        {[1, 2, 3, 4, 5].map((weight) => (
+          <Form.Dropdown.Item key={weight} value={String(weight)} title={weight === 1 ? "1× (normal)" : `${weight}×`} />
+        ))}
       </Form.Dropdown>
       <Form.TextField
-        id="intervalMinutes"
-        title="Interval (minutes)"
-        placeholder="60"
-        defaultValue={habit ? String(habit.intervalMinutes) : "60"}
-      />
-      <Form.TextField
-        id="targetRepetitionsPerDay"
-        title="Daily Repetitions"
-        placeholder="1"
-        defaultValue={habit ? String(habit.targetRepetitionsPerDay) : "1"}
-      />
-      <Form.TextField
-        id="expectedDurationMinutes"
-        title="Expected Duration (minutes, optional)"
-        placeholder="20"
-        defaultValue={habit?.expectedDurationMinutes ? String(habit.expectedDurationMinutes) : ""}
+        id="category"
+        title="Category (optional)"
+        placeholder="Health"
+        info={knownCategories.length > 0 ? `Existing: ${knownCategories.join(", ")}` : undefined}
+        defaultValue={defaults?.category}
       />
-      <Form.TextArea id="notes" title="Notes (optional)" defaultValue={habit?.notes} />
+      <Form.TagPicker id="tags" title="Tags" defaultValue={defaults?.tags ?? []}>
+        {tagOptions.map((tag) => (
+          <Form.TagPicker.Item key={tag} value={tag} title={tag} />
+        ))}
+      </Form.TagPicker>
+      <Form.TextField id="newTags" title="New Tags" placeholder="morning, focus" />
+      {type !== "avoid" && (
+        <>
+          <Form.Checkbox
+            id="ignoreQuietHours"
+            title="Quiet Hours"
+            label="Remind me even during quiet hours"
+            defaultValue={defaults?.ignoreQuietHours ?? false}
+          />
+          <Form.Separator />
+          <Form.Dropdown
+            id="reminderStyle"
+            title="Reminder Style"
+            defaultValue={defaults?.reminderPolicy?.style ?? "toast"}
+          >
+            {(Object.keys(REMINDER_STYLE_LABELS) as ReminderStyle[]).map((style) => (
+              <Form.Dropdown.Item key={style} value={style} title={REMINDER_STYLE_LABELS[style]} />
+            ))}
+          </Form.Dropdown>
+          <Form.TextField
+            id="reminderThrottleMinutes"
+            title="Remind Every (minutes)"
+            placeholder="Default from preferences"
+            defaultValue={optionalNumber(defaults?.reminderPolicy?.throttleMinutes)}
+          />
+          <Form.TextField
+            id="maxReminders"
+            title="Max Reminders"
+            placeholder="Unlimited"
+            info="Reminders stop after this many until the item is completed or postponed."
+            defaultValue={optionalNumber(defaults?.reminderPolicy?.maxReminders)}
+          />
+          <Form.TextField
+            id="escalateAfterMinutes"
+            title="Escalate After (minutes overdue)"
+            placeholder="60"
+            defaultValue={optionalNumber(defaults?.reminderPolicy?.escalateAfterMinutes)}
+          />
+          <Form.TextField
+            id="escalatedThrottleMinutes"
+            title="Then Remind Every (minutes)"
+            placeholder="5"
+            defaultValue={optionalNumber(defaults?.reminderPolicy?.escalatedThrottleMinutes)}
+          />
+          <Form.Separator />
+          <Form.TextArea
+            id="checklist"
+            title="Checklist (optional)"
+            placeholder={"Clear inbox\nReview calendar\nPlan next week"}
+            info="One step per line. Recurring habits start with a fresh checklist after each completion."
+            defaultValue={checklistToText(defaults?.checklist)}
+          />
+          <Form.Checkbox
+            id="checklistAutoComplete"
+            label="Complete automatically when every step is checked"
+            defaultValue={defaults?.checklistAutoComplete ?? false}
+          />
+        </>
+      )}
+      <Form.TextArea id="notes" title="Notes (optional)" defaultValue={defaults?.notes} />
     </Form>
   );
 }
@@ -0,0 +1,192 @@
+import { Action, ActionPanel, Alert, confirmAlert, Icon, List, showToast, Toast } from "@raycast/api";
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { showUndoableToast } from "../lib/feedback";
+import { PERIOD_UNITS, targetPeriodOf } from "../lib/period";
+import { formatQuantity, isQuantityHabit, totalQuantity } from "../lib/quantity";
+import { completionsByDay, computeHabitStreaks } from "../lib/stats";
+import { deleteCompletion, deletePostpone, listCompletions, listPostpones } from "../lib/storage";
+import { dayKey, formatClock, formatDayLabel, formatDuration } from "../lib/time";
+import { CompletionRecord, Habit, PostponeRecord } from "../lib/types";
+import { CompletionForm, PostponeForm } from "./RecordForms";
+
+interface HabitHistoryProps {
+  habit: Habit;
+  onChanged?: () => Promise<void> | void;
+}
+
+type HistoryEntry =
+  | { kind: "completion"; at: string; record: CompletionRecord }
+  | { kind: "postpone"; at: string; record: PostponeRecord };
+
+export function HabitHistory({ habit, onChanged }: HabitHistoryProps) {
+  const [isLoading, setIsLoading] = useState(true);
+  const [completions, setCompletions] = useState<CompletionRecord[]>([]);
+  const [postpones, setPostpones] = useState<PostponeRecord[]>([]);
+
+  const refresh = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const [completionData, postponeData] = await Promise.all([listCompletions(), listPostpones()]);
+      setCompletions(completionData.filter((record) => record.habitId === habit.id));
+      setPostpones(postponeData.filter((record) => record.habitId === habit.id));
+    } finally {
+      setIsLoading(false);
+    }
+  }, [habit.id]);
+
+  useEffect(() => {
+    refresh().catch((error) =>
+      showToast({
+        style: Toast.Style.Failure,
+        title: "Unable to load history",
+        message: error instanceof Error ? error.message : String(error),
+      }),
+    );
+  }, [refresh]);
+
+  async function afterChange() {
+    await refresh();
+    if (onChanged) {
+      await onChanged();
+    }
+  }
+
+  const days = useMemo(() => {
+    const completionCounts = completionsByDay(completions);
+    const byDay = new Map<string, HistoryEntry[]>();
+    const entries: HistoryEntry[] = [
+      ...completions.map((record) => ({ kind: "completion" as const, at: record.completedAt, record })),
+      ...postpones.map((record) => ({ kind: "postpone" as const, at: record.postponedAt, record })),
+    ];
+
+    for (const entry of entries) {
+      const key = dayKey(entry.at);
+      byDay.set(key, [...(byDay.get(key) ?? []), entry]);
+    }
+
+    return [...byDay.entries()]
+      .sort(([a], [b]) => b.localeCompare(a))
+      .map(([key, dayEntries]) => ({
+        key,
+        completed: completionCounts.get(key)?.length ?? 0,
+        amount: totalQuantity(completionCounts.get(key) ?? []),
+        entries: dayEntries.sort((a, b) => new Date(b.at).getTime() - new Date(a.at).getTime()),
+      }));
+  }, [completions, postpones]);
+
+  const streaks = useMemo(() => computeHabitStreaks(habit, completions), [habit, completions]);
+  // Weekly and monthly targets are not met on a single day, so days only show their count.
+  const target = targetPeriodOf(habit) === "day" ? Math.max(1, habit.targetRepetitionsPerDay) : undefined;
+  const unit = PERIOD_UNITS[streaks.period];
+
+  function daySubtitle(completed: number, amount: number): string {
+    if (isQuantityHabit(habit)) {
+      const { unit: amountUnit, dailyTarget } = habit.quantity;
+      const progress = `${formatQuantity(amount, amountUnit)}/${formatQuantity(dailyTarget, amountUnit)}`;
+      return `${progress}${amount >= dailyTarget ? " ✓" : ""}`;
+    }
+    return target ? `${completed}/${target}${completed >= target ? " ✓" : ""}` : `${completed}×`;
+  }
+
+  async function remove(entry: HistoryEntry) {
+    const confirmed = await confirmAlert({
+      title: entry.kind === "completion" ? "Delete completion?" : "Delete postpone?",
+      message: `${formatDayLabel(dayKey(entry.at))} at ${formatClock(entry.at)}`,
+      primaryAction: {
+        title: "Delete",
+        style: Alert.ActionStyle.Destructive,
+      },
+    });
+    if (!confirmed) {
+      return;
+    }
+
+    try {
+      const { undoId } =
+        entry.kind === "completion" ? await deleteCompletion(entry.record.id) : await deletePostpone(entry.record.id);
+      await showUndoableToast({
+        title: entry.kind === "completion" ? "Completion deleted" : "Postpone deleted",
+        undoId,
+        onUndone: afterChange,
+      });
+      await afterChange();
+    } catch (error) {
+      await showToast({
+        style: Toast.Style.Failure,
+        title: "Unable to delete",
+        message: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  const logAction = (
+    <Action.Push
+      title="Log Past Completion"
+      icon={Icon.Plus}
+      shortcut={{ modifiers: ["cmd"], key: "n" }}
+      target={<CompletionForm habit={habit} onSaved={afterChange} />}
+    />
+  );
+
+  return (
+    <List
+      isLoading={isLoading}
+      navigationTitle={`${habit.name} History`}
+      searchBarPlaceholder={`Streak ${streaks.currentStreak}${unit} · best ${streaks.longestStreak}${unit}`}
+      actions={<ActionPanel>{logAction}</ActionPanel>}
+    >
+      <List.EmptyView icon={Icon.Calendar} title="No history yet" actions={<ActionPanel>{logAction}</ActionPanel>} />
+      {days.map(({ key, completed, amount, entries }) => (
+        <List.Section key={key} title={formatDayLabel(key)} subtitle={daySubtitle(completed, amount)}>
+          {entries.map((entry) => (
+            <List.Item
+              key={entry.record.id}
+              icon={
+                entry.kind === "postpone"
+                  ? Icon.Clock
+                  : entry.record.source === "timer"
+                    ? Icon.Stopwatch
+                    : Icon.Checkmark
+              }
+              title={formatClock(entry.at)}
+              subtitle={entry.kind === "completion" ? entry.record.source : `postponed ${entry.record.minutes}m`}
+              accessories={
+                entry.kind === "completion"
+                  ? [
+                      ...(entry.record.quantity !== undefined
+                        ? [{ text: formatQuantity(entry.record.quantity, habit.quantity?.unit ?? "") }]
+                        : []),
+                      ...(entry.record.durationSeconds > 0 ? [{ text: formatDuration(entry.record.durationSeconds) }] : []),
+                    ]
+                  : undefined
+              }
+              actions={
+                <ActionPanel>
+                  <Action.Push
+                    title="Edit"
+                    icon={Icon.Pencil}
+                    target={
+                      entry.kind === "completion" ? (
+                        <CompletionForm habit={habit} completion={entry.record} onSaved={afterChange} />
+                      ) : (
+                        <PostponeForm habit={habit} postpone={entry.record} onSaved={afterChange} />
+                      )
+                    }
+                  />
+                  <Action
+                    title="Delete"
+                    icon={Icon.Trash}
+                    style={Action.Style.Destructive}
+                    shortcut={{ modifiers: ["ctrl"], key: "x" }}
+                    onAction={() => remove(entry)}
+                  />
+                  {logAction}
+                </ActionPanel>
+              }
+            />
+          ))}
+        </List.Section>
+      ))}
+    </List>
+  );
+}
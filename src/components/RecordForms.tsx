@@ -0,0 +1,302 @@
+import { Action, ActionPanel, Form, showToast, Toast, useNavigation } from "@raycast/api";
+import { useState } from "react";
+import { showUndoableToast } from "../lib/feedback";
+import { formatQuantity, isQuantityHabit, parseQuantity, quickLogAmount } from "../lib/quantity";
+import { logPastCompletion, logQuantity, logSlip, updateCompletion, updatePostpone } from "../lib/storage";
+import { CompletionRecord, Habit, HabitQuantity, PostponeRecord } from "../lib/types";
+
+type CompletionFormValues = {
+  completedAt: Date | null;
+  durationMinutes: string;
+  amount?: string;
+};
+
+type AmountFormValues = {
+  amount: string;
+};
+
+type SlipFormValues = {
+  slippedAt: Date | null;
+  note: string;
+};
+
+type PostponeFormValues = {
+  postponedAt: Date | null;
+  minutes: string;
+};
+
+interface CompletionFormProps {
+  habit: Habit;
+  completion?: CompletionRecord;
+  onSaved?: () => Promise<void> | void;
+}
+
+interface AmountFormProps {
+  habit: Habit & { quantity: HabitQuantity };
+  onSaved?: () => Promise<void> | void;
+}
+
+interface SlipFormProps {
+  habit: Habit;
+  onSaved?: () => Promise<void> | void;
+}
+
+interface PostponeFormProps {
+  habit: Habit;
+  postpone: PostponeRecord;
+  onSaved?: () => Promise<void> | void;
+}
+
+function parseMinutes(raw: string): number | undefined {
+  if (!raw.trim()) {
+    return 0;
+  }
+  const parsed = Number.parseFloat(raw);
+  return Number.isNaN(parsed) || parsed < 0 ? undefined : parsed;
+}
+
+/** Logs a forgotten completion, or edits an existing one when `completion` is given. */
+export function CompletionForm({ habit, completion, onSaved }: CompletionFormProps) {
+  const { pop } = useNavigation();
+  const [isSaving, setIsSaving] = useState(false);
+
+  const measured = isQuantityHabit(habit) ? habit : undefined;
+
+  async function onSubmit(values: CompletionFormValues) {
+    const minutes = parseMinutes(values.durationMinutes);
+    if (!values.completedAt || minutes === undefined) {
+      await showToast({
+        style: Toast.Style.Failure,
+        title: "Invalid completion",
+        message: "Pick a time and enter the duration in minutes",
+      });
+      return;
+    }
+
+    const amount = measured ? parseQuantity(values.amount) : undefined;
+    if (measured && amount === undefined) {
+      await showToast({
+        style: Toast.Style.Failure,
+        title: "Invalid amount",
+        message: `Enter a positive amount in ${measured.quantity.unit}`,
+      });
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const entry = { completedAt: values.completedAt, durationSeconds: Math.round(minutes * 60), quantity: amount };
+      const { undoId } = completion
+        ? await updateCompletion(completion.id, entry)
+        : await logPastCompletion(habit.id, entry);
+      await showUndoableToast({
+        title: completion ? "Completion updated" : "Completion logged",
+        undoId,
+        onUndone: onSaved,
+      });
+      if (onSaved) {
+        await onSaved();
+      }
+      pop();
+    } catch (error) {
+      await showToast({
+        style: Toast.Style.Failure,
+        title: "Unable to save",
+        message: error instanceof Error ? error.message : String(error),
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  }
+
+  return (
+    <Form
+      navigationTitle={completion ? "Edit Completion" : "Log Past Completion"}
+      isLoading={isSaving}
+      actions={
+        <ActionPanel>
+          <Action.SubmitForm title={completion ? "Save Changes" : "Log Completion"} onSubmit={onSubmit} />
+        </ActionPanel>
+      }
+    >
+      <Form.Description text={habit.name} />
+      <Form.DatePicker
+        id="completedAt"
+        title="Completed At"
+        defaultValue={completion ? new Date(completion.completedAt) : new Date()}
+      />
+      {measured ? (
+        <Form.TextField
+          id="amount"
+          title={`Amount (${measured.quantity.unit})`}
+          placeholder={String(quickLogAmount(measured))}
+          defaultValue={String(completion?.quantity ?? quickLogAmount(measured))}
+        />
+      ) : null}
+      <Form.TextField
+        id="durationMinutes"
+        title="Duration (minutes)"
+        placeholder="0"
+        defaultValue={completion && completion.durationSeconds > 0 ? String(Math.round(completion.durationSeconds / 60)) : ""}
+      />
+    </Form>
+  );
+}
+
+/** Logs an amount for a measurable habit. */
+export function AmountForm({ habit, onSaved }: AmountFormProps) {
+  const { pop } = useNavigation();
+  const [isSaving, setIsSaving] = useState(false);
+
+  async function onSubmit(values: AmountFormValues) {
+    const amount = parseQuantity(values.amount);
+    if (amount === undefined) {
+      await showToast({
+        style: Toast.Style.Failure,
+        title: "Invalid amount",
+        message: `Enter a positive amount in ${habit.quantity.unit}`,
+      });
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const { undoId } = await logQuantity(habit.id, amount);
+      await showUndoableToast({
+        title: `Logged ${formatQuantity(amount, habit.quantity.unit)}`,
+        undoId,
+        onUndone: onSaved,
+      });
+      if (onSaved) {
+        await onSaved();
+      }
+      pop();
+    } catch (error) {
+      await showToast({
+        style: Toast.Style.Failure,
+        title: "Unable to log amount",
+        message: error instanceof Error ? error.message : String(error),
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  }
+
+  return (
+    <Form
+      navigationTitle="Log Amount"
+      isLoading={isSaving}
+      actions={
+        <ActionPanel>
+          <Action.SubmitForm title="Log Amount" onSubmit={onSubmit} />
+        </ActionPanel>
+      }
+    >
+      <Form.Description text={habit.name} />
+      <Form.TextField
+        id="amount"
+        title={`Amount (${habit.quantity.unit})`}
+        placeholder={String(quickLogAmount(habit))}
+        defaultValue={String(quickLogAmount(habit))}
+      />
+    </Form>
+  );
+}
+
+/** Logs a slip of an avoid item, now or at an earlier time. */
+export function SlipForm({ habit, onSaved }: SlipFormProps) {
+  const { pop } = useNavigation();
+  const [isSaving, setIsSaving] = useState(false);
+
+  async function onSubmit(values: SlipFormValues) {
+    if (!values.slippedAt) {
+      await showToast({ style: Toast.Style.Failure, title: "Pick when the slip happened" });
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const { undoId } = await logSlip(habit.id, { slippedAt: values.slippedAt, note: values.note });
+      await showUndoableToast({ title: `Slip logged: ${habit.name}`, undoId, onUndone: onSaved });
+      if (onSaved) {
+        await onSaved();
+      }
+      pop();
+    } catch (error) {
+      await showToast({
+        style: Toast.Style.Failure,
+        title: "Unable to log slip",
+        message: error instanceof Error ? error.message : String(error),
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  }
+
+  return (
+    <Form
+      navigationTitle="Log Slip"
+      isLoading={isSaving}
+      actions={
+        <ActionPanel>
+          <Action.SubmitForm title="Log Slip" onSubmit={onSubmit} />
+        </ActionPanel>
+      }
+    >
+      <Form.Description text={habit.name} />
+      <Form.DatePicker id="slippedAt" title="When" defaultValue={new Date()} />
+      <Form.TextField id="note" title="Note (optional)" placeholder="What happened?" />
+    </Form>
+  );
+}
+
+export function PostponeForm({ habit, postpone, onSaved }: PostponeFormProps) {
+  const { pop } = useNavigation();
+  const [isSaving, setIsSaving] = useState(false);
+
+  async function onSubmit(values: PostponeFormValues) {
+    const minutes = Number.parseInt(values.minutes, 10);
+    if (!values.postponedAt || Number.isNaN(minutes) || minutes <= 0) {
+      await showToast({
+        style: Toast.Style.Failure,
+        title: "Invalid postpone",
+        message: "Pick a time and enter the postponed minutes",
+      });
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      const { undoId } = await updatePostpone(postpone.id, { postponedAt: values.postponedAt, minutes });
+      await showUndoableToast({ title: "Postpone updated", undoId, onUndone: onSaved });
+      if (onSaved) {
+        await onSaved();
+      }
+      pop();
+    } catch (error) {
+      await showToast({
+        style: Toast.Style.Failure,
+        title: "Unable to save",
+        message: error instanceof Error ? error.message : String(error),
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  }
+
+  return (
+    <Form
+      navigationTitle="Edit Postpone"
+      isLoading={isSaving}
+      actions={
+        <ActionPanel>
+          <Action.SubmitForm title="Save Changes" onSubmit={onSubmit} />
+        </ActionPanel>
+      }
+    >
+      <Form.Description text={habit.name} />
+      <Form.DatePicker id="postponedAt" title="Postponed At" defaultValue={new Date(postpone.postponedAt)} />
+      <Form.TextField id="minutes" title="Minutes" placeholder="15" defaultValue={String(postpone.minutes)} />
+    </Form>
+  );
+}
@@ -0,0 +1,123 @@
+import { Color, Icon, List, showToast, Toast } from "@raycast/api";
+import { useEffect, useMemo, useState } from "react";
+import { breakdownLine } from "../lib/score";
+import { listScoreSnapshots } from "../lib/storage";
+import { dayKey, formatDayLabel, parseDayKey, startOfWeek } from "../lib/time";
+import { DailyScoreSnapshot } from "../lib/types";
+
+const SPARK_BARS = ["▁", "▂", "▃", "▄", "▅", "▆", "▇", "█"];
+
+function sparkline(scores: number[]): string {
+  return scores.map((score) => SPARK_BARS[Math.min(SPARK_BARS.length - 1, Math.floor((score / 100) * SPARK_BARS.length))]).join("");
+}
+
+function weekStartKey(day: string): string {
+  return dayKey(startOfWeek(parseDayKey(day)));
+}
+
+function weeklyAverages(snapshots: DailyScoreSnapshot[]): { week: string; average: number; days: number }[] {
+  const byWeek = new Map<string, number[]>();
+  for (const snapshot of snapshots) {
+    const week = weekStartKey(snapshot.day);
+    byWeek.set(week, [...(byWeek.get(week) ?? []), snapshot.score]);
+  }
+
+  return [...byWeek.entries()]
+    .sort(([a], [b]) => b.localeCompare(a))
+    .map(([week, scores]) => ({
+      week,
+      average: Math.round(scores.reduce((total, score) => total + score, 0) / scores.length),
+      days: scores.length,
+    }));
+}
+
+function overviewMarkdown(snapshots: DailyScoreSnapshot[]): string {
+  if (snapshots.length === 0) {
+    return "# Score History\n\nNo closed days yet. A snapshot is stored on the first reminder check of each new day.";
+  }
+
+  const recent = snapshots.slice(-30);
+  const best = snapshots.reduce((top, entry) => (entry.score > top.score ? entry : top));
+  const worst = snapshots.reduce((low, entry) => (entry.score < low.score ? entry : low));
+  const average = Math.round(snapshots.reduce((total, entry) => total + entry.score, 0) / snapshots.length);
+
+  return [
+    "# Score History",
+    "",
+    `Last ${recent.length} days: \`${sparkline(recent.map((entry) => entry.score))}\``,
+    "",
+    `- Average: **${average}/100**`,
+    `- Best day: **${formatDayLabel(best.day)}** with ${best.score}/100 (${best.grade})`,
+    `- Worst day: **${formatDayLabel(worst.day)}** with ${worst.score}/100 (${worst.grade})`,
+    "",
+    "## Weekly Averages",
+    ...weeklyAverages(snapshots).map(
+      (entry) => `- Week of ${formatDayLabel(entry.week)}: **${entry.average}/100** (${entry.days} days)`,
+    ),
+  ].join("\n");
+}
+
+function snapshotMarkdown(snapshot: DailyScoreSnapshot): string {
+  return [
+    `# ${formatDayLabel(snapshot.day)}: ${snapshot.score}/100 (${snapshot.grade})`,
+    "",
+    `- Completions: **${snapshot.completedCount}**`,
+    `- Tracked time: **${snapshot.totalTrackedMinutes}m**`,
+    `- Due at day end: **${snapshot.dueNowCount}**`,
+    "",
+    "## Habit Breakdown",
+    ...snapshot.breakdown.map(breakdownLine),
+  ].join("\n");
+}
+
+function scoreColor(score: number): Color {
+  if (score >= 80) return Color.Green;
+  if (score >= 60) return Color.Yellow;
+  return Color.Red;
+}
+
+export function ScoreHistory() {
+  const [isLoading, setIsLoading] = useState(true);
+  const [snapshots, setSnapshots] = useState<DailyScoreSnapshot[]>([]);
+
+  useEffect(() => {
+    listScoreSnapshots()
+      .then(setSnapshots)
+      .catch((error) =>
+        showToast({
+          style: Toast.Style.Failure,
+          title: "Unable to load score history",
+          message: error instanceof Error ? error.message : String(error),
+        }),
+      )
+      .finally(() => setIsLoading(false));
+  }, []);
+
+  const newestFirst = useMemo(() => [...snapshots].reverse(), [snapshots]);
+
+  return (
+    <List isShowingDetail isLoading={isLoading} navigationTitle="Score History">
+      <List.Section title="Trend">
+        <List.Item
+          id="score-overview"
+          icon={Icon.LineChart}
+          title="Overview"
+          subtitle={sparkline(snapshots.slice(-14).map((entry) => entry.score))}
+          detail={<List.Item.Detail markdown={overviewMarkdown(snapshots)} />}
+        />
+      </List.Section>
+      <List.Section title={`Days (${snapshots.length})`}>
+        {newestFirst.map((snapshot) => (
+          <List.Item
+            key={snapshot.day}
+            id={snapshot.day}
+            icon={Icon.Calendar}
+            title={formatDayLabel(snapshot.day)}
+            accessories={[{ tag: { value: `${snapshot.score} ${snapshot.grade}`, color: scoreColor(snapshot.score) } }]}
+            detail={<List.Item.Detail markdown={snapshotMarkdown(snapshot)} />}
+          />
+        ))}
+      </List.Section>
+    </List>
+  );
+}
@@ -0,0 +1,124 @@
+import { Action, ActionPanel, Alert, confirmAlert, Icon, List, showToast, Toast } from "@raycast/api";
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { daysClean, longestCleanDays, slipsOf } from "../lib/avoid";
+import { showUndoableToast } from "../lib/feedback";
+import { deleteSlip, listSlips } from "../lib/storage";
+import { dayKey, formatClock, formatDayLabel } from "../lib/time";
+import { Habit, SlipRecord } from "../lib/types";
+import { SlipForm } from "./RecordForms";
+
+interface SlipLogProps {
+  habit: Habit;
+  onChanged?: () => Promise<void> | void;
+}
+
+/** Slips of an avoid item by day, with the current and longest clean run. */
+export function SlipLog({ habit, onChanged }: SlipLogProps) {
+  const [isLoading, setIsLoading] = useState(true);
+  const [slips, setSlips] = useState<SlipRecord[]>([]);
+
+  const refresh = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      setSlips(slipsOf(habit, await listSlips()));
+    } finally {
+      setIsLoading(false);
+    }
+  }, [habit]);
+
+  useEffect(() => {
+    refresh().catch((error) =>
+      showToast({
+        style: Toast.Style.Failure,
+        title: "Unable to load slips",
+        message: error instanceof Error ? error.message : String(error),
+      }),
+    );
+  }, [refresh]);
+
+  async function afterChange() {
+    await refresh();
+    if (onChanged) {
+      await onChanged();
+    }
+  }
+
+  const days = useMemo(() => {
+    const byDay = new Map<string, SlipRecord[]>();
+    for (const slip of slips) {
+      const key = dayKey(slip.slippedAt);
+      byDay.set(key, [...(byDay.get(key) ?? []), slip]);
+    }
+    return [...byDay.entries()].sort(([a], [b]) => b.localeCompare(a));
+  }, [slips]);
+
+  async function remove(slip: SlipRecord) {
+    const confirmed = await confirmAlert({
+      title: "Delete slip?",
+      message: `${formatDayLabel(dayKey(slip.slippedAt))} at ${formatClock(slip.slippedAt)}`,
+      primaryAction: {
+        title: "Delete",
+        style: Alert.ActionStyle.Destructive,
+      },
+    });
+    if (!confirmed) {
+      return;
+    }
+
+    try {
+      const { undoId } = await deleteSlip(slip.id);
+      await showUndoableToast({ title: "Slip deleted", undoId, onUndone: afterChange });
+      await afterChange();
+    } catch (error) {
+      await showToast({
+        style: Toast.Style.Failure,
+        title: "Unable to delete",
+        message: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  const logAction = (
+    <Action.Push
+      title="Log Slip"
+      icon={Icon.Plus}
+      shortcut={{ modifiers: ["cmd"], key: "n" }}
+      target={<SlipForm habit={habit} onSaved={afterChange} />}
+    />
+  );
+
+  return (
+    <List
+      isLoading={isLoading}
+      navigationTitle={`${habit.name} Slips`}
+      searchBarPlaceholder={`${daysClean(habit, slips)}d clean · best ${longestCleanDays(habit, slips)}d`}
+      actions={<ActionPanel>{logAction}</ActionPanel>}
+    >
+      <List.EmptyView icon={Icon.Leaf} title="No slips yet" actions={<ActionPanel>{logAction}</ActionPanel>} />
+      {days.map(([key, daySlips]) => (
+        <List.Section key={key} title={formatDayLabel(key)} subtitle={`${daySlips.length}×`}>
+          {daySlips.map((slip) => (
+            <List.Item
+              key={slip.id}
+              icon={Icon.XMarkCircle}
+              title={formatClock(slip.slippedAt)}
+              subtitle={slip.note}
+              actions={
+                <ActionPanel>
+                  <Action
+                    title="Delete"
+                    icon={Icon.Trash}
+                    style={Action.Style.Destructive}
+                    shortcut={{ modifiers: ["ctrl"], key: "x" }}
+                    onAction={() => remove(slip)}
+                  />
+                  {logAction}
+                </ActionPanel>
+              }
+            />
+          ))}
+        </List.Section>
+      ))}
+    </List>
+  );
+}
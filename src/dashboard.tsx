@@ -11,28 +11,113 @@ import {
   Toast,
 } from "@raycast/api";
 import { useCallback, useEffect, useMemo, useState } from "react";
+import { ArchivedHabits } from "./components/ArchivedHabits";
 import { HabitForm } from "./components/HabitForm";
-import { computeDailyScore } from "./lib/score";
+import { HabitHistory } from "./components/HabitHistory";
+import { AmountForm, CompletionForm, SlipForm } from "./components/RecordForms";
+import { SlipLog } from "./components/SlipLog";
+import { ScoreHistory } from "./components/ScoreHistory";
+import { daysClean, isAvoidItem, longestCleanDays, slipsOf, slipsToday } from "./lib/avoid";
+import { isTargetMet, queuedOccurrences, RESCHEDULE_MODE_LABELS, rescheduleModeOf } from "./lib/cadence";
+import { checklistProgress, isChecklistComplete } from "./lib/checklist";
+import { showUndoableToast, undoWithFeedback } from "./lib/feedback";
+import { describePeriodProgress, PERIOD_UNITS, periodProgress } from "./lib/period";
+import { compareByPriority, isMissedDeadline, priorityOf, PRIORITY_LABELS } from "./lib/priority";
+import { formatQuantity, isQuantityHabit, quickLogAmount } from "./lib/quantity";
+import { describeReminderPolicy, isOverdue } from "./lib/reminders";
+import { breakdownLine, computeDailyScore, percent } from "./lib/score";
+import { computeHabitStreaks, HabitStreakStats } from "./lib/stats";
 import {
+  acknowledgeStorageIssues,
   archiveHabit,
   completeHabit,
+  discardHabitTimer,
   listCompletions,
   listHabits,
   listPostpones,
+  listScoreSnapshots,
   listSessions,
+  listSlips,
+  listStorageIssues,
+  logQuantity,
+  logSlip,
+  pauseHabitTimer,
   postponeHabit,
+  resumeHabitTimer,
   startHabitTimer,
   stopHabitTimer,
+  toggleChecklistItem,
 } from "./lib/storage";
-import { formatClock, formatDuration, formatRelativeDue, secondsBetween, startOfDay } from "./lib/time";
-import { CompletionRecord, DailyScore, Habit, PostponeRecord, RayminderPreferences, TimerSession } from "./lib/types";
+import { collectTags, groupByCategory } from "./lib/tags";
+import {
+  activeTimerSeconds,
+  dayKey,
+  describeSchedule,
+  formatClock,
+  formatDayLabel,
+  formatDuration,
+  formatRelativeDue,
+  isTimerPaused,
+  safeInteger,
+  startOfDay,
+} from "./lib/time";
+import {
+  CompletionRecord,
+  DailyScore,
+  DailyScoreSnapshot,
+  Habit,
+  HabitQuantity,
+  PostponeRecord,
+  RayminderPreferences,
+  ScoringStrategy,
+  SlipRecord,
+  TimerSession,
+} from "./lib/types";
+
+const SCORING_STRATEGY_LABELS: Record<ScoringStrategy, string> = {
+  progress: "progress",
+  binary: "done / not done",
+  streak: "streak-based",
+};
+
+function streakMarkdown(streaks: HabitStreakStats): string[] {
+  const unit = PERIOD_UNITS[streaks.period];
+  return [
+    "",
+    "## Streaks",
+    `- Current streak: **${streaks.currentStreak}${unit}**`,
+    `- Longest streak: **${streaks.longestStreak}${unit}**`,
+    `- Completion rate: **${percent(streaks.completionRate7)}** 7d · **${percent(streaks.completionRate30)}** 30d · **${percent(
+      streaks.completionRate90,
+    )}** 90d`,
+  ];
+}
 
-function safeInteger(raw: string | undefined, fallback: number): number {
-  const parsed = Number.parseInt(raw ?? "", 10);
-  if (Number.isNaN(parsed) || parsed <= 0) {
-    return fallback;
+async function reportStorageIssues() {
+  const issues = await listStorageIssues();
+  if (issues.length === 0) {
+    return;
   }
-  return parsed;
+
+  const toast = await showToast({
+    style: Toast.Style.Failure,
+    title: "Some Rayminder data could not be read",
+    message: `Quarantined unreadable data in ${issues.map((issue) => issue.key).join(", ")}`,
+  });
+  toast.primaryAction = {
+    title: "Dismiss",
+    onAction: async () => {
+      await acknowledgeStorageIssues();
+      await toast.hide();
+    },
+  };
+}
+
+function timerAccessory(session: TimerSession, now: Date): List.Item.Accessory {
+  const elapsed = formatDuration(activeTimerSeconds(session, now));
+  return isTimerPaused(session)
+    ? { icon: Icon.Pause, tag: { value: `Paused · ${elapsed}`, color: Color.Yellow } }
+    : { icon: Icon.Stopwatch, text: elapsed };
 }
 
 function useNowTick(): Date {
@@ -49,54 +134,72 @@ function useNowTick(): Date {
 export default function DashboardCommand() {
   const preferences = getPreferenceValues<RayminderPreferences>();
   const defaultPostponeMinutes = safeInteger(preferences.defaultPostponeMinutes, 15);
+  const reminderThrottleMinutes = safeInteger(preferences.reminderThrottleMinutes, 5);
 
   const [isLoading, setIsLoading] = useState(true);
   const [habits, setHabits] = useState<Habit[]>([]);
   const [sessions, setSessions] = useState<TimerSession[]>([]);
   const [completions, setCompletions] = useState<CompletionRecord[]>([]);
   const [postpones, setPostpones] = useState<PostponeRecord[]>([]);
+  const [slips, setSlips] = useState<SlipRecord[]>([]);
   const [dailyScore, setDailyScore] = useState<DailyScore | null>(null);
+  const [lastSnapshot, setLastSnapshot] = useState<DailyScoreSnapshot | undefined>(undefined);
+  const [tagFilter, setTagFilter] = useState("all");
+  const [isGroupedByCategory, setIsGroupedByCategory] = useState(Boolean(preferences.groupByCategory));
 
   const now = useNowTick();
 
   const refresh = useCallback(async () => {
     setIsLoading(true);
     try {
-      const [habitData, sessionData, completionData, postponeData, score] = await Promise.all([
+      const [habitData, sessionData, completionData, postponeData, slipData, score, snapshots] = await Promise.all([
         listHabits(false),
         listSessions(),
         listCompletions(),
         listPostpones(),
+        listSlips(),
         computeDailyScore(),
+        listScoreSnapshots(),
       ]);
 
       setHabits(habitData);
       setSessions(sessionData);
       setCompletions(completionData);
       setPostpones(postponeData);
+      setSlips(slipData);
       setDailyScore(score);
+      setLastSnapshot(snapshots[snapshots.length - 1]);
     } finally {
       setIsLoading(false);
     }
   }, []);
 
   useEffect(() => {
-    refresh();
+    refresh()
+      .then(reportStorageIssues)
+      .catch((error) =>
+        showToast({
+          style: Toast.Style.Failure,
+          title: "Unable to load items",
+          message: error instanceof Error ? error.message : String(error),
+        }),
+      );
   }, [refresh]);
 
   const dayStartMs = useMemo(() => startOfDay(now).getTime(), [now]);
 
   const completionStats = useMemo(() => {
-    const byHabit = new Map<string, { count: number; durationSeconds: number }>();
+    const byHabit = new Map<string, { count: number; durationSeconds: number; quantity: number }>();
     for (const entry of completions) {
       const completed = new Date(entry.completedAt).getTime();
       if (completed < dayStartMs || completed > now.getTime()) {
         continue;
       }
-      const current = byHabit.get(entry.habitId) ?? { count: 0, durationSeconds: 0 };
+      const current = byHabit.get(entry.habitId) ?? { count: 0, durationSeconds: 0, quantity: 0 };
       byHabit.set(entry.habitId, {
         count: current.count + 1,
         durationSeconds: current.durationSeconds + entry.durationSeconds,
+        quantity: current.quantity + (entry.quantity ?? 0),
       });
     }
     return byHabit;
@@ -114,6 +217,14 @@ export default function DashboardCommand() {
     return byHabit;
   }, [postpones, dayStartMs, now]);
 
+  const streakStats = useMemo(() => {
+    const byHabit = new Map<string, HabitStreakStats>();
+    for (const habit of habits) {
+      byHabit.set(habit.id, computeHabitStreaks(habit, completions, new Date(dayStartMs)));
+    }
+    return byHabit;
+  }, [habits, completions, dayStartMs]);
+
   const activeSessionByHabit = useMemo(() => {
     const map = new Map<string, TimerSession>();
     for (const session of sessions) {
@@ -122,15 +233,49 @@ export default function DashboardCommand() {
     return map;
   }, [sessions]);
 
+  const tags = useMemo(() => collectTags(habits), [habits]);
+
+  const visibleHabits = useMemo(
+    () => (tagFilter === "all" ? habits : habits.filter((habit) => habit.tags?.includes(tagFilter))),
+    [habits, tagFilter],
+  );
+
+  const missedTasks = useMemo(
+    () => visibleHabits.filter((habit) => isMissedDeadline(habit, now)).sort(compareByPriority),
+    [visibleHabits, now],
+  );
+
   const dueHabits = useMemo(() => {
-    const nowMs = now.getTime();
-    return habits.filter((habit) => new Date(habit.dueAt).getTime() <= nowMs);
-  }, [habits, now]);
+    return visibleHabits
+      .filter((habit) => isOverdue(habit, now) && !isMissedDeadline(habit, now))
+      .sort(compareByPriority);
+  }, [visibleHabits, now]);
+
+  // Weekly and monthly habits whose target is already met rest here until their next period.
+  const isDoneForToday = useCallback(
+    (habit: Habit) => new Date(habit.dueAt).getTime() > now.getTime() && isTargetMet(habit, completions, now),
+    [completions, now],
+  );
 
   const upcomingHabits = useMemo(() => {
     const nowMs = now.getTime();
-    return habits.filter((habit) => new Date(habit.dueAt).getTime() > nowMs);
-  }, [habits, now]);
+    return visibleHabits
+      .filter(
+        (habit) =>
+          !isAvoidItem(habit) &&
+          new Date(habit.dueAt).getTime() > nowMs &&
+          !isMissedDeadline(habit, now) &&
+          !isDoneForToday(habit),
+      )
+      .sort(compareByPriority);
+  }, [visibleHabits, now, isDoneForToday]);
+
+  const avoidItems = useMemo(() => visibleHabits.filter(isAvoidItem).sort(compareByPriority), [visibleHabits]);
+
+  const doneTodayHabits = useMemo(
+    () => visibleHabits.filter(isDoneForToday).sort(compareByPriority),
+    [visibleHabits, isDoneForToday],
+  );
 
   const activeTimerHabits = useMemo(() => {
     return sessions
@@ -144,12 +289,9 @@ export default function DashboardCommand() {
   async function completeNow(habit: Habit, manualOnly = false) {
     try {
       const session = activeSessionByHabit.get(habit.id);
-      if (session && !manualOnly) {
-        await stopHabitTimer(habit.id);
-      } else {
-        await completeHabit(habit.id, { source: "manual" });
-      }
-      await showToast({ style: Toast.Style.Success, title: `${habit.name} completed` });
+      const { undoId } =
+        session && !manualOnly ? await stopHabitTimer(habit.id) : await completeHabit(habit.id, { source: "manual" });
+      await showUndoableToast({ title: `${habit.name} completed`, undoId, onUndone: refresh });
       await refresh();
     } catch (error) {
       await showToast({
@@ -160,6 +302,75 @@ export default function DashboardCommand() {
     }
   }
 
+  async function logAmount(habit: Habit & { quantity: HabitQuantity }, amount: number) {
+    try {
+      const { undoId } = await logQuantity(habit.id, amount);
+      await showUndoableToast({
+        title: `Logged ${formatQuantity(amount, habit.quantity.unit)}`,
+        undoId,
+        onUndone: refresh,
+      });
+      await refresh();
+    } catch (error) {
+      await showToast({
+        style: Toast.Style.Failure,
+        title: "Unable to log amount",
+        message: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  async function slipNow(habit: Habit) {
+    try {
+      const { undoId } = await logSlip(habit.id);
+      await showUndoableToast({ title: `Slip logged: ${habit.name}`, undoId, onUndone: refresh });
+      await refresh();
+    } catch (error) {
+      await showToast({
+        style: Toast.Style.Failure,
+        title: "Unable to log slip",
+        message: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  async function toggleStep(habit: Habit, itemId: string) {
+    try {
+      const {
+        result: { habit: updated, completion },
+        undoId,
+      } = await toggleChecklistItem(habit.id, itemId);
+      if (completion) {
+        await showUndoableToast({
+          title: `${habit.name} completed`,
+          message: "All steps checked",
+          undoId,
+          onUndone: refresh,
+        });
+        await refresh();
+        return;
+      }
+
+      await refresh();
+      if (isChecklistComplete(updated)) {
+        const confirmed = await confirmAlert({
+          title: `All steps of ${habit.name} are checked`,
+          message: "Mark it complete now?",
+          primaryAction: { title: "Complete" },
+        });
+        if (confirmed) {
+          await completeNow(updated);
+        }
+      }
+    } catch (error) {
+      await showToast({
+        style: Toast.Style.Failure,
+        title: "Unable to update checklist",
+        message: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
   async function startTimer(habit: Habit) {
     try {
       await startHabitTimer(habit.id);
@@ -174,13 +385,47 @@ export default function DashboardCommand() {
     }
   }
 
-  async function stopTimer(habit: Habit) {
+  async function togglePause(habit: Habit, session: TimerSession) {
+    const paused = isTimerPaused(session);
     try {
-      const completion = await stopHabitTimer(habit.id);
+      if (paused) {
+        await resumeHabitTimer(habit.id);
+      } else {
+        await pauseHabitTimer(habit.id);
+      }
+      await showToast({ style: Toast.Style.Success, title: `${paused ? "Resumed" : "Paused"} timer for ${habit.name}` });
+      await refresh();
+    } catch (error) {
       await showToast({
-        style: Toast.Style.Success,
+        style: Toast.Style.Failure,
+        title: paused ? "Unable to resume timer" : "Unable to pause timer",
+        message: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  async function discardTimer(habit: Habit) {
+    try {
+      const { undoId } = await discardHabitTimer(habit.id);
+      await showUndoableToast({ title: `Discarded timer for ${habit.name}`, undoId, onUndone: refresh });
+      await refresh();
+    } catch (error) {
+      await showToast({
+        style: Toast.Style.Failure,
+        title: "Unable to discard timer",
+        message: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  async function stopTimer(habit: Habit) {
+    try {
+      const { result: completion, undoId } = await stopHabitTimer(habit.id);
+      await showUndoableToast({
         title: `${habit.name} completed`,
         message: completion.durationSeconds > 0 ? `Tracked ${formatDuration(completion.durationSeconds)}` : undefined,
+        undoId,
+        onUndone: refresh,
       });
       await refresh();
     } catch (error) {
@@ -194,11 +439,12 @@ export default function DashboardCommand() {
 
   async function postponeBy(habit: Habit, minutes: number) {
     try {
-      await postponeHabit(habit.id, minutes);
-      await showToast({
-        style: Toast.Style.Success,
+      const { undoId } = await postponeHabit(habit.id, minutes);
+      await showUndoableToast({
         title: `${habit.name} postponed`,
         message: `Next due in ${minutes}m`,
+        undoId,
+        onUndone: refresh,
       });
       await refresh();
     } catch (error) {
@@ -224,17 +470,63 @@ export default function DashboardCommand() {
       return;
     }
 
-    await archiveHabit(habit.id);
-    await showToast({ style: Toast.Style.Success, title: `${habit.name} archived` });
+    try {
+      const { undoId } = await archiveHabit(habit.id);
+      await showUndoableToast({ title: `${habit.name} archived`, undoId, onUndone: refresh });
+      await refresh();
+    } catch (error) {
+      await showToast({
+        style: Toast.Style.Failure,
+        title: "Unable to archive",
+        message: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  async function undoLast() {
+    await undoWithFeedback();
     await refresh();
   }
 
+  function avoidMarkdown(habit: Habit): string {
+    const recent = slipsOf(habit, slips, now).slice(0, 5);
+    return [
+      `# ${habit.name}`,
+      habit.notes ? `${habit.notes}` : "No notes",
+      "",
+      "- Type: **avoid**",
+      `- Priority: **${PRIORITY_LABELS[priorityOf(habit)]}**`,
+      ...(habit.category ? [`- Category: **${habit.category}**`] : []),
+      ...(habit.tags && habit.tags.length > 0 ? [`- Tags: ${habit.tags.map((tag) => `\`${tag}\``).join(" ")}`] : []),
+      `- Days clean: **${daysClean(habit, slips, now)}**`,
+      `- Longest clean run: **${longestCleanDays(habit, slips, now)} days**`,
+      `- Slips today: **${slipsToday(habit, slips, now)}**`,
+      ...(recent.length > 0
+        ? [
+            "",
+            "## Recent Slips",
+            ...recent.map(
+              (slip) =>
+                `- ${formatDayLabel(dayKey(slip.slippedAt))} ${formatClock(slip.slippedAt)}${slip.note ? ` · ${slip.note}` : ""}`,
+            ),
+          ]
+        : []),
+    ].join("\n");
+  }
+
   function habitMarkdown(habit: Habit): string {
-    const stats = completionStats.get(habit.id) ?? { count: 0, durationSeconds: 0 };
+    if (isAvoidItem(habit)) {
+      return avoidMarkdown(habit);
+    }
+
+    const stats = completionStats.get(habit.id) ?? { count: 0, durationSeconds: 0, quantity: 0 };
     const session = activeSessionByHabit.get(habit.id);
     const postponeCount = postponeStats.get(habit.id) ?? 0;
+    const streaks = streakStats.get(habit.id);
+    const period = periodProgress(habit, completions, now);
+    const dailyTarget = period.period === "day" ? `/${habit.targetRepetitionsPerDay}` : "";
 
-    const trackedDuration = stats.durationSeconds + (session ? secondsBetween(session.startedAt, now) : 0);
+    const trackedDuration = stats.durationSeconds + (session ? activeTimerSeconds(session, now) : 0);
     const durationProgress =
       habit.expectedDurationMinutes && habit.targetRepetitionsPerDay > 0
         ? `${Math.round((trackedDuration / 60 / (habit.expectedDurationMinutes * habit.targetRepetitionsPerDay)) * 100)}%`
@@ -245,105 +537,325 @@ export default function DashboardCommand() {
       habit.notes ? `${habit.notes}` : "No notes",
       "",
       `- Type: **${habit.type}**`,
+      `- Priority: **${PRIORITY_LABELS[priorityOf(habit)]}**`,
+      ...(habit.deadline
+        ? [`- Deadline: **${new Date(habit.deadline).toLocaleString()}**${isMissedDeadline(habit, now) ? " (missed)" : ""}`]
+        : []),
+      ...(habit.category ? [`- Category: **${habit.category}**`] : []),
+      ...(habit.tags && habit.tags.length > 0 ? [`- Tags: ${habit.tags.map((tag) => `\`${tag}\``).join(" ")}`] : []),
       `- Due: **${formatRelativeDue(habit.dueAt, now)}**`,
-      habit.type === "task" ? "- Schedule: **one-time task**" : `- Interval: **every ${habit.intervalMinutes}m**`,
-      `- Today repetitions: **${stats.count}/${habit.targetRepetitionsPerDay}**`,
+      habit.type === "task"
+        ? "- Schedule: **one-time task**"
+        : `- Schedule: **${describeSchedule(habit.schedule, habit.intervalMinutes)}**`,
+      ...(habit.type === "habit" ? [`- Rescheduling: **${RESCHEDULE_MODE_LABELS[rescheduleModeOf(habit)]}**`] : []),
+      ...(queuedOccurrences(habit, now) > 1 ? [`- Queued occurrences: **${queuedOccurrences(habit, now)}**`] : []),
+      `- Reminders: **${describeReminderPolicy(habit, reminderThrottleMinutes)}**`,
+      isQuantityHabit(habit)
+        ? `- Today amount: **${formatQuantity(stats.quantity, habit.quantity.unit)}/${formatQuantity(habit.quantity.dailyTarget, habit.quantity.unit)}**`
+        : `- Today repetitions: **${stats.count}${dailyTarget}**`,
+      ...(period.period !== "day" ? [`- Target: **${describePeriodProgress(period)}**`] : []),
       `- Today tracked time: **${formatDuration(trackedDuration)}**`,
       `- Duration target progress: **${durationProgress}**`,
       `- Postponed today: **${postponeCount}x**`,
-      session ? `- Active timer since: **${formatClock(session.startedAt)}**` : "- Active timer: **no**",
+      session
+        ? `- Active timer since: **${formatClock(session.startedAt)}**${isTimerPaused(session) ? " (paused)" : ""}`
+        : "- Active timer: **no**",
+      ...(habit.checklist && habit.checklist.length > 0
+        ? ["", "## Checklist", ...habit.checklist.map((item) => `- ${item.done ? "☑" : "☐"} ${item.title}`)]
+        : []),
+      ...(habit.type === "habit" && streaks ? streakMarkdown(streaks) : []),
     ].join("\n");
   }
 
   function habitAccessories(habit: Habit): List.Item.Accessory[] {
-    const stats = completionStats.get(habit.id) ?? { count: 0, durationSeconds: 0 };
+    if (isAvoidItem(habit)) {
+      const slipCount = slipsToday(habit, slips, now);
+      return [
+        { tag: { value: `${daysClean(habit, slips, now)}d clean`, color: slipCount > 0 ? Color.Orange : Color.Green } },
+        ...(slipCount > 0 ? [{ text: `${slipCount} ${slipCount === 1 ? "slip" : "slips"} today` }] : []),
+      ];
+    }
+
+    const stats = completionStats.get(habit.id) ?? { count: 0, durationSeconds: 0, quantity: 0 };
     const session = activeSessionByHabit.get(habit.id);
     const isOverdue = new Date(habit.dueAt).getTime() <= now.getTime();
+    const period = periodProgress(habit, completions, now);
 
     const accessories: List.Item.Accessory[] = [
-      {
-        tag: {
-          value: formatRelativeDue(habit.dueAt, now),
-          color: isOverdue ? Color.Red : Color.Green,
-        },
-      },
-      { text: `${stats.count}/${habit.targetRepetitionsPerDay} reps` },
+      isMissedDeadline(habit, now)
+        ? { tag: { value: "Missed", color: Color.Red }, tooltip: `Deadline ${formatClock(habit.deadline as string)}` }
+        : {
+            tag: {
+              value: formatRelativeDue(habit.dueAt, now),
+              color: isOverdue ? Color.Red : Color.Green,
+            },
+          },
+      isQuantityHabit(habit)
+        ? { text: `${formatQuantity(stats.quantity, habit.quantity.unit)}/${habit.quantity.dailyTarget}` }
+        : period.period === "day"
+          ? { text: `${stats.count}/${habit.targetRepetitionsPerDay} reps` }
+          : { text: `${period.count}/${period.target} this ${period.period}`, tooltip: describePeriodProgress(period) },
     ];
 
+    if (priorityOf(habit) !== "normal") {
+      accessories.unshift({
+        icon: priorityOf(habit) === "high" ? { source: Icon.Exclamationmark, tintColor: Color.Orange } : Icon.ArrowDown,
+        tooltip: `${PRIORITY_LABELS[priorityOf(habit)]} priority`,
+      });
+    }
+
     if (stats.durationSeconds > 0) {
       accessories.push({ text: formatDuration(stats.durationSeconds) });
     }
 
+    const steps = checklistProgress(habit);
+    if (steps !== undefined && habit.checklist) {
+      accessories.push({
+        icon: Icon.BulletPoints,
+        text: `${habit.checklist.filter((item) => item.done).length}/${habit.checklist.length}`,
+        tooltip: `Checklist ${Math.round(steps * 100)}% done`,
+      });
+    }
+
     if (session) {
-      accessories.push({ icon: Icon.Stopwatch, text: formatDuration(secondsBetween(session.startedAt, now)) });
+      accessories.push(timerAccessory(session, now));
     }
 
     return accessories;
   }
 
+  const groupAction = (
+    <Action
+      title={isGroupedByCategory ? "Ungroup Categories" : "Group by Category"}
+      icon={Icon.AppWindowList}
+      shortcut={{ modifiers: ["cmd"], key: "g" }}
+      onAction={() => setIsGroupedByCategory((grouped) => !grouped)}
+    />
+  );
+
+  function manageSection(habit: Habit): JSX.Element {
+    return (
+      <ActionPanel.Section title="Manage">
+        <Action.Push title="Edit" icon={Icon.Pencil} target={<HabitForm habit={habit} onSaved={refresh} />} />
+        {!isAvoidItem(habit) && (
+          <>
+            <Action.Push
+              title="Show History"
+              icon={Icon.Calendar}
+              shortcut={{ modifiers: ["cmd"], key: "y" }}
+              target={<HabitHistory habit={habit} onChanged={refresh} />}
+            />
+            <Action.Push
+              title="Log Past Completion"
+              icon={Icon.Clock}
+              target={<CompletionForm habit={habit} onSaved={refresh} />}
+            />
+          </>
+        )}
+        <Action.Push title="Add Habit or Task" icon={Icon.Plus} target={<HabitForm onSaved={refresh} />} />
+        <Action.Push title="Archived Items" icon={Icon.Tray} target={<ArchivedHabits onChanged={refresh} />} />
+        <Action
+          title="Archive"
+          icon={Icon.Trash}
+          style={Action.Style.Destructive}
+          shortcut={{ modifiers: ["cmd", "shift"], key: "delete" }}
+          onAction={() => archive(habit)}
+        />
+        <Action
+          title="Undo Last Change"
+          icon={Icon.Undo}
+          shortcut={{ modifiers: ["cmd"], key: "z" }}
+          onAction={undoLast}
+        />
+        {groupAction}
+        <Action title="Refresh" icon={Icon.ArrowClockwise} onAction={refresh} shortcut={{ modifiers: ["cmd"], key: "r" }} />
+      </ActionPanel.Section>
+    );
+  }
+
+  function avoidActions(habit: Habit): JSX.Element {
+    return (
+      <ActionPanel>
+        <ActionPanel.Section>
+          <Action title="Log Slip Now" icon={Icon.XMarkCircle} onAction={() => slipNow(habit)} />
+          <Action.Push
+            title="Log Slip…"
+            icon={Icon.Clock}
+            shortcut={{ modifiers: ["cmd"], key: "l" }}
+            target={<SlipForm habit={habit} onSaved={refresh} />}
+          />
+          <Action.Push
+            title="Show Slip Log"
+            icon={Icon.Calendar}
+            shortcut={{ modifiers: ["cmd"], key: "y" }}
+            target={<SlipLog habit={habit} onChanged={refresh} />}
+          />
+        </ActionPanel.Section>
+        {manageSection(habit)}
+      </ActionPanel>
+    );
+  }
+
   function habitActions(habit: Habit): JSX.Element {
+    if (isAvoidItem(habit)) {
+      return avoidActions(habit);
+    }
+
     const session = activeSessionByHabit.get(habit.id);
 
     return (
       <ActionPanel>
         <ActionPanel.Section>
+          {isQuantityHabit(habit) && (
+            <Action
+              title={`Log ${formatQuantity(quickLogAmount(habit), habit.quantity.unit)}`}
+              icon={Icon.PlusCircle}
+              onAction={() => logAmount(habit, quickLogAmount(habit))}
+            />
+          )}
+          {isQuantityHabit(habit) && (
+            <Action.Push
+              title="Log Amount…"
+              icon={Icon.PlusSquare}
+              shortcut={{ modifiers: ["cmd"], key: "l" }}
+              target={<AmountForm habit={habit} onSaved={refresh} />}
+            />
+          )}
           {session ? (
             <Action title="Stop Timer & Complete" icon={Icon.Stop} onAction={() => stopTimer(habit)} />
           ) : (
             <Action title="Start Timer" icon={Icon.Play} onAction={() => startTimer(habit)} />
           )}
+          {session && (
+            <Action
+              title={isTimerPaused(session) ? "Resume Timer" : "Pause Timer"}
+              icon={isTimerPaused(session) ? Icon.Play : Icon.Pause}
+              shortcut={{ modifiers: ["cmd"], key: "p" }}
+              onAction={() => togglePause(habit, session)}
+            />
+          )}
           <Action
             title={session ? "Complete Without Timer" : "Mark Complete"}
             icon={Icon.Checkmark}
             onAction={() => completeNow(habit, true)}
           />
           <Action title={`Postpone ${defaultPostponeMinutes}m`} icon={Icon.Clock} onAction={() => postponeBy(habit, defaultPostponeMinutes)} />
+          {session && (
+            <Action
+              title="Discard Timer"
+              icon={Icon.XMarkCircle}
+              style={Action.Style.Destructive}
+              onAction={() => discardTimer(habit)}
+            />
+          )}
         </ActionPanel.Section>
 
+        {habit.checklist && habit.checklist.length > 0 && (
+          <ActionPanel.Section title="Checklist">
+            {habit.checklist.map((item) => (
+              <Action
+                key={item.id}
+                title={`${item.done ? "Uncheck" : "Check"} ${item.title}`}
+                icon={item.done ? Icon.CheckCircle : Icon.Circle}
+                onAction={() => toggleStep(habit, item.id)}
+              />
+            ))}
+          </ActionPanel.Section>
+        )}
+
         <ActionPanel.Section title="Postpone">
           <Action title="Postpone 10m" onAction={() => postponeBy(habit, 10)} />
           <Action title="Postpone 30m" onAction={() => postponeBy(habit, 30)} />
           <Action title="Postpone 60m" onAction={() => postponeBy(habit, 60)} />
         </ActionPanel.Section>
 
-        <ActionPanel.Section title="Manage">
-          <Action.Push title="Edit" icon={Icon.Pencil} target={<HabitForm habit={habit} onSaved={refresh} />} />
-          <Action.Push title="Add Habit or Task" icon={Icon.Plus} target={<HabitForm onSaved={refresh} />} />
-          <Action
-            title="Archive"
-            icon={Icon.Trash}
-            style={Action.Style.Destructive}
-            shortcut={{ modifiers: ["cmd", "shift"], key: "delete" }}
-            onAction={() => archive(habit)}
-          />
-          <Action title="Refresh" icon={Icon.ArrowClockwise} onAction={refresh} shortcut={{ modifiers: ["cmd"], key: "r" }} />
-        </ActionPanel.Section>
+        {manageSection(habit)}
       </ActionPanel>
     );
   }
 
+  function habitItem(habit: Habit, idPrefix: string): JSX.Element {
+    return (
+      <List.Item
+        key={habit.id}
+        id={`${idPrefix}${habit.id}`}
+        icon={habit.type === "habit" ? Icon.Repeat : habit.type === "avoid" ? Icon.Leaf : Icon.Checklist}
+        title={habit.name}
+        subtitle={
+          isAvoidItem(habit)
+            ? "avoid"
+            : habit.deadline
+              ? `${habit.type} · deadline ${new Date(habit.deadline).toLocaleString([], { dateStyle: "short", timeStyle: "short" })}`
+              : `${habit.type} · due ${formatClock(habit.dueAt)}`
+        }
+        keywords={[...(habit.tags ?? []), ...(habit.category ? [habit.category] : [])]}
+        accessories={habitAccessories(habit)}
+        detail={<List.Item.Detail markdown={habitMarkdown(habit)} />}
+        actions={habitActions(habit)}
+      />
+    );
+  }
+
+  function habitSections(title: string, items: Habit[], idPrefix: string): JSX.Element | JSX.Element[] {
+    if (!isGroupedByCategory) {
+      return (
+        <List.Section title={`${title} (${items.length})`}>{items.map((habit) => habitItem(habit, idPrefix))}</List.Section>
+      );
+    }
+
+    return groupByCategory(items).map(({ category, items: grouped }) => (
+      <List.Section key={`${idPrefix}${category}`} title={`${title} · ${category} (${grouped.length})`}>
+        {grouped.map((habit) => habitItem(habit, idPrefix))}
+      </List.Section>
+    ));
+  }
+
   const summaryMarkdown = dailyScore
     ? [
         `# Daily Score: ${dailyScore.score}/100 (${dailyScore.grade})`,
         "",
+        `- Scoring: **${SCORING_STRATEGY_LABELS[dailyScore.strategy ?? "progress"]}**`,
         `- Completed today: **${dailyScore.completedCount}**`,
         `- Tracked time today: **${dailyScore.totalTrackedMinutes}m**`,
         `- Currently due: **${dailyScore.dueNowCount}**`,
+        lastSnapshot
+          ? `- ${formatDayLabel(lastSnapshot.day)}: **${lastSnapshot.score}/100 (${lastSnapshot.grade})**`
+          : "- No closed days recorded yet",
         "",
+        ...(dailyScore.categories && dailyScore.categories.length > 1
+          ? [
+              "## Categories",
+              ...dailyScore.categories.map(
+                (item) => `- **${item.category}**: ${item.score}/100 (${item.habitCount} ${item.habitCount === 1 ? "item" : "items"})`,
+              ),
+              "",
+            ]
+          : []),
         "## Habit Breakdown",
         ...dailyScore.breakdown
           .sort((a, b) => a.score - b.score)
-          .map(
-            (item) =>
-              `- **${item.name}**: ${item.score}/100 | reps ${item.repetitions}/${item.repetitionTarget} | time ${Math.round(item.durationMinutes)}m${
-                item.durationTargetMinutes > 0 ? `/${item.durationTargetMinutes}m` : ""
-              } | postpones ${item.postpones}`,
-          ),
+          .map(breakdownLine),
       ].join("\n")
     : "# Loading score...";
 
   return (
-    <List isShowingDetail isLoading={isLoading} searchBarPlaceholder="Search habits or tasks">
+    <List
+      isShowingDetail
+      isLoading={isLoading}
+      searchBarPlaceholder="Search habits or tasks"
+      searchBarAccessory={
+        <List.Dropdown tooltip="Filter by Tag" storeValue onChange={setTagFilter}>
+          <List.Dropdown.Item value="all" title="All Tags" />
+          {tags.length > 0 && (
+            <List.Dropdown.Section title="Tags">
+              {tags.map((tag) => (
+                <List.Dropdown.Item key={tag} value={tag} title={tag} />
+              ))}
+            </List.Dropdown.Section>
+          )}
+        </List.Dropdown>
+      }
+    >
       <List.Section title="Today">
         <List.Item
           id="rayminder-summary"
@@ -355,6 +867,15 @@ export default function DashboardCommand() {
           actions={
             <ActionPanel>
               <Action.Push title="Add Habit or Task" icon={Icon.Plus} target={<HabitForm onSaved={refresh} />} />
+              <Action.Push title="Score History" icon={Icon.LineChart} target={<ScoreHistory />} />
+              <Action.Push title="Archived Items" icon={Icon.Tray} target={<ArchivedHabits onChanged={refresh} />} />
+              <Action
+                title="Undo Last Change"
+                icon={Icon.Undo}
+                shortcut={{ modifiers: ["cmd"], key: "z" }}
+                onAction={undoLast}
+              />
+              {groupAction}
               <Action title="Refresh" onAction={refresh} icon={Icon.ArrowClockwise} />
             </ActionPanel>
           }
@@ -367,10 +888,14 @@ export default function DashboardCommand() {
             <List.Item
               key={`timer-${habit.id}`}
               id={`timer-${habit.id}`}
-              icon={Icon.Stopwatch}
+              icon={isTimerPaused(session) ? Icon.Pause : Icon.Stopwatch}
               title={habit.name}
-              subtitle={`Running since ${formatClock(session.startedAt)}`}
-              accessories={[{ icon: Icon.Stopwatch, text: formatDuration(secondsBetween(session.startedAt, now)) }]}
+              subtitle={
+                isTimerPaused(session)
+                  ? `Paused since ${formatClock(session.pauses?.[session.pauses.length - 1].pausedAt ?? session.startedAt)}`
+                  : `Running since ${formatClock(session.startedAt)}`
+              }
+              accessories={[timerAccessory(session, now)]}
               detail={<List.Item.Detail markdown={habitMarkdown(habit)} />}
               actions={habitActions(habit)}
             />
@@ -378,35 +903,11 @@ export default function DashboardCommand() {
         </List.Section>
       )}
 
-      <List.Section title={`Due Now (${dueHabits.length})`}>
-        {dueHabits.map((habit) => (
-          <List.Item
-            key={habit.id}
-            id={habit.id}
-            icon={habit.type === "habit" ? Icon.Repeat : Icon.Checklist}
-            title={habit.name}
-            subtitle={`${habit.type} · due ${formatClock(habit.dueAt)}`}
-            accessories={habitAccessories(habit)}
-            detail={<List.Item.Detail markdown={habitMarkdown(habit)} />}
-            actions={habitActions(habit)}
-          />
-        ))}
-      </List.Section>
-
-      <List.Section title={`Upcoming (${upcomingHabits.length})`}>
-        {upcomingHabits.map((habit) => (
-          <List.Item
-            key={habit.id}
-            id={`upcoming-${habit.id}`}
-            icon={habit.type === "habit" ? Icon.Repeat : Icon.Checklist}
-            title={habit.name}
-            subtitle={`${habit.type} · due ${formatClock(habit.dueAt)}`}
-            accessories={habitAccessories(habit)}
-            detail={<List.Item.Detail markdown={habitMarkdown(habit)} />}
-            actions={habitActions(habit)}
-          />
-        ))}
-      </List.Section>
+      {missedTasks.length > 0 && habitSections("Missed Deadlines", missedTasks, "missed-")}
+      {habitSections("Due Now", dueHabits, "")}
+      {habitSections("Upcoming", upcomingHabits, "upcoming-")}
+      {habitSections("Done for Today", doneTodayHabits, "done-")}
+      {habitSections("Avoiding", avoidItems, "avoid-")}
     </List>
   );
 }
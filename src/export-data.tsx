@@ -0,0 +1,79 @@
+import { Action, ActionPanel, Form, showInFinder, showToast, Toast } from "@raycast/api";
+import { writeFile } from "fs/promises";
+import { homedir } from "os";
+import { join } from "path";
+import { useState } from "react";
+import { completionsToCsv, createBackup, postponesToCsv } from "./lib/backup";
+
+type ExportFormValues = {
+  folder: string[];
+  includeCsv: boolean;
+};
+
+export default function ExportDataCommand() {
+  const [isExporting, setIsExporting] = useState(false);
+
+  async function onSubmit(values: ExportFormValues) {
+    const folder = values.folder[0];
+    if (!folder) {
+      await showToast({ style: Toast.Style.Failure, title: "Choose a folder to export to" });
+      return;
+    }
+
+    setIsExporting(true);
+    try {
+      const backup = await createBackup();
+      const stamp = backup.exportedAt.slice(0, 10);
+      const jsonPath = join(folder, `rayminder-backup-${stamp}.json`);
+
+      await writeFile(jsonPath, JSON.stringify(backup, null, 2), "utf8");
+      if (values.includeCsv) {
+        const completionsCsv = completionsToCsv(backup.completions, backup.habits);
+        const postponesCsv = postponesToCsv(backup.postpones, backup.habits);
+        await writeFile(join(folder, `rayminder-completions-${stamp}.csv`), completionsCsv, "utf8");
+        await writeFile(join(folder, `rayminder-postpones-${stamp}.csv`), postponesCsv, "utf8");
+      }
+
+      const toast = await showToast({
+        style: Toast.Style.Success,
+        title: "Rayminder data exported",
+        message: `${backup.habits.length} items, ${backup.completions.length} completions`,
+      });
+      toast.primaryAction = {
+        title: "Show in Finder",
+        onAction: () => showInFinder(jsonPath),
+      };
+    } catch (error) {
+      await showToast({
+        style: Toast.Style.Failure,
+        title: "Unable to export",
+        message: error instanceof Error ? error.message : String(error),
+      });
+    } finally {
+      setIsExporting(false);
+    }
+  }
+
+  return (
+    <Form
+      navigationTitle="Export Rayminder Data"
+      isLoading={isExporting}
+      actions={
+        <ActionPanel>
+          <Action.SubmitForm title="Export" onSubmit={onSubmit} />
+        </ActionPanel>
+      }
+    >
+      <Form.Description text="Writes a versioned JSON backup of all habits, timers, completions, postpones, slips, and score snapshots." />
+      <Form.FilePicker
+        id="folder"
+        title="Folder"
+        allowMultipleSelection={false}
+        canChooseDirectories
+        canChooseFiles={false}
+        defaultValue={[join(homedir(), "Downloads")]}
+      />
+      <Form.Checkbox id="includeCsv" title="Spreadsheets" label="Also export completions and postpones as CSV" defaultValue />
+    </Form>
+  );
+}
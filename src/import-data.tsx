@@ -0,0 +1,74 @@
+import { Action, ActionPanel, Alert, confirmAlert, Form, showToast, Toast } from "@raycast/api";
+import { readFile } from "fs/promises";
+import { useState } from "react";
+import { ImportMode, importBackup, parseBackup } from "./lib/backup";
+
+type ImportFormValues = {
+  file: string[];
+  mode: ImportMode;
+};
+
+export default function ImportDataCommand() {
+  const [isImporting, setIsImporting] = useState(false);
+
+  async function onSubmit(values: ImportFormValues) {
+    const file = values.file[0];
+    if (!file) {
+      await showToast({ style: Toast.Style.Failure, title: "Choose a backup file" });
+      return;
+    }
+
+    setIsImporting(true);
+    try {
+      const backup = parseBackup(await readFile(file, "utf8"));
+
+      if (values.mode === "replace") {
+        const confirmed = await confirmAlert({
+          title: "Replace all Rayminder data?",
+          message: `Current data will be replaced by the backup from ${new Date(backup.exportedAt).toLocaleString()}.`,
+          primaryAction: {
+            title: "Replace",
+            style: Alert.ActionStyle.Destructive,
+          },
+        });
+        if (!confirmed) {
+          return;
+        }
+      }
+
+      const summary = await importBackup(backup, values.mode);
+      await showToast({
+        style: Toast.Style.Success,
+        title: values.mode === "replace" ? "Data replaced" : "Data merged",
+        message: `${summary.habits} items, ${summary.completions} completions, ${summary.postpones} postpones, ${summary.slips} slips · ${summary.skippedDuplicates} duplicates skipped`,
+      });
+    } catch (error) {
+      await showToast({
+        style: Toast.Style.Failure,
+        title: "Unable to import",
+        message: error instanceof Error ? error.message : String(error),
+      });
+    } finally {
+      setIsImporting(false);
+    }
+  }
+
+  return (
+    <Form
+      navigationTitle="Import Rayminder Data"
+      isLoading={isImporting}
+      actions={
+        <ActionPanel>
+          <Action.SubmitForm title="Import" onSubmit={onSubmit} />
+        </ActionPanel>
+      }
+    >
+      <Form.Description text="Imports a JSON backup created by Export Rayminder Data. The file is validated before anything is written." />
+      <Form.FilePicker id="file" title="Backup File" allowMultipleSelection={false} canChooseDirectories={false} />
+      <Form.Dropdown id="mode" title="Mode" defaultValue="merge">
+        <Form.Dropdown.Item value="merge" title="Merge (keep existing, add new IDs)" />
+        <Form.Dropdown.Item value="replace" title="Replace all data" />
+      </Form.Dropdown>
+    </Form>
+  );
+}
@@ -0,0 +1,46 @@
+import { daysBetween, startOfDay } from "./time";
+import { Habit, SlipRecord } from "./types";
+
+export function isAvoidItem(habit: Pick<Habit, "type">): boolean {
+  return habit.type === "avoid";
+}
+
+function wholeDaysBetween(start: Date, end: Date): number {
+  return Math.max(0, daysBetween(start, end));
+}
+
+export function slipsOf(habit: Pick<Habit, "id">, slips: SlipRecord[], now = new Date()): SlipRecord[] {
+  return slips
+    .filter((entry) => entry.habitId === habit.id && new Date(entry.slippedAt).getTime() <= now.getTime())
+    .sort((a, b) => b.slippedAt.localeCompare(a.slippedAt));
+}
+
+export function slipsToday(habit: Pick<Habit, "id">, slips: SlipRecord[], now = new Date()): number {
+  const dayStart = startOfDay(now).getTime();
+  return slipsOf(habit, slips, now).filter((entry) => new Date(entry.slippedAt).getTime() >= dayStart).length;
+}
+
+/** Days since the last slip, or since the item was created; a slip today resets it to 0. */
+export function daysClean(habit: Pick<Habit, "id" | "createdAt">, slips: SlipRecord[], now = new Date()): number {
+  const last = slipsOf(habit, slips, now)[0];
+  return wholeDaysBetween(new Date(last ? last.slippedAt : habit.createdAt), now);
+}
+
+/** Longest run of slip-free days, counted the same way as `daysClean` for the current run. */
+export function longestCleanDays(habit: Pick<Habit, "id" | "createdAt">, slips: SlipRecord[], now = new Date()): number {
+  const boundaries = [
+    new Date(habit.createdAt),
+    ...slipsOf(habit, slips, now)
+      .reverse()
+      .map((entry) => new Date(entry.slippedAt)),
+    now,
+  ];
+  let longest = 0;
+  for (let index = 1; index < boundaries.length; index += 1) {
+    // Both slip days are dirty, so the clean stretch between them is one day shorter than the distance.
+    const isSlipToSlip = index > 1 && index < boundaries.length - 1;
+    const days = wholeDaysBetween(boundaries[index - 1], boundaries[index]) - (isSlipToSlip ? 1 : 0);
+    longest = Math.max(longest, days);
+  }
+  return longest;
+}
@@ -0,0 +1,225 @@
+import { CURRENT_SCHEMA_VERSION, loadDataSet, migrateDataSet, updateDataSet } from "./storage";
+import { CompletionRecord, Habit, PostponeRecord, RayminderDataSet } from "./types";
+
+export const BACKUP_FORMAT = "rayminder-backup";
+export const BACKUP_VERSION = 1;
+
+export type ImportMode = "merge" | "replace";
+
+export interface RayminderBackup extends RayminderDataSet {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  /** Storage schema the records were written with; backups without it predate schema versioning. */
+  schemaVersion: number;
+  exportedAt: string;
+}
+
+export interface ImportSummary {
+  habits: number;
+  completions: number;
+  postpones: number;
+  slips: number;
+  skippedDuplicates: number;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function hasStrings(value: unknown, fields: string[]): value is Record<string, unknown> {
+  return isRecord(value) && fields.every((field) => typeof value[field] === "string");
+}
+
+function isDate(value: unknown): boolean {
+  return typeof value === "string" && !Number.isNaN(new Date(value).getTime());
+}
+
+function isCount(value: unknown, positive = false): boolean {
+  return typeof value === "number" && Number.isFinite(value) && (positive ? value > 0 : value >= 0);
+}
+
+type EntryCheck = (entry: Record<string, unknown>) => boolean;
+
+const TRACKABLE_TYPES: unknown[] = ["habit", "task", "avoid"];
+
+const VALID_ENTRY: Record<string, EntryCheck> = {
+  habits: (entry) =>
+    TRACKABLE_TYPES.includes(entry.type) &&
+    typeof entry.archived === "boolean" &&
+    isCount(entry.intervalMinutes, true) &&
+    isDate(entry.createdAt) &&
+    isDate(entry.dueAt) &&
+    (entry.targetRepetitionsPerDay === undefined || isCount(entry.targetRepetitionsPerDay)),
+  sessions: (entry) => isDate(entry.startedAt),
+  completions: (entry) =>
+    isDate(entry.completedAt) &&
+    (entry.durationSeconds === undefined || isCount(entry.durationSeconds)) &&
+    (entry.source === undefined || entry.source === "manual" || entry.source === "timer") &&
+    (entry.quantity === undefined || isCount(entry.quantity)),
+  postpones: (entry) => isDate(entry.postponedAt) && isCount(entry.minutes, true),
+  scores: (entry) =>
+    isDate(entry.capturedAt) &&
+    isCount(entry.score) &&
+    Array.isArray(entry.breakdown) &&
+    entry.breakdown.every((item) => hasStrings(item, ["name"]) && isCount(item.score)),
+  slips: (entry) => isDate(entry.slippedAt),
+};
+
+function readArray<T>(bundle: Record<string, unknown>, field: string, requiredStrings: string[], optional = false): T[] {
+  const value = bundle[field];
+  if (value === undefined && optional) {
+    return [];
+  }
+  if (!Array.isArray(value)) {
+    throw new Error(`Backup is missing the "${field}" list`);
+  }
+
+  const invalid = value.findIndex((entry) => !hasStrings(entry, requiredStrings) || !VALID_ENTRY[field](entry));
+  if (invalid >= 0) {
+    throw new Error(`Entry ${invalid + 1} in "${field}" is malformed`);
+  }
+  return value as T[];
+}
+
+/** Keeps the first entry for each key, reporting how many later duplicates were dropped. */
+function dedupe<T>(entries: T[], keyOf: (entry: T) => string): { entries: T[]; dropped: number } {
+  const seen = new Set<string>();
+  const unique: T[] = [];
+  for (const entry of entries) {
+    const key = keyOf(entry);
+    if (seen.has(key)) {
+      continue;
+    }
+    seen.add(key);
+    unique.push(entry);
+  }
+  return { entries: unique, dropped: entries.length - unique.length };
+}
+
+export async function createBackup(now = new Date()): Promise<RayminderBackup> {
+  const data = await loadDataSet();
+  return {
+    format: BACKUP_FORMAT,
+    version: BACKUP_VERSION,
+    schemaVersion: CURRENT_SCHEMA_VERSION,
+    exportedAt: now.toISOString(),
+    ...data,
+  };
+}
+
+export function parseBackup(raw: string): RayminderBackup {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch {
+    throw new Error("File is not valid JSON");
+  }
+
+  if (!isRecord(parsed) || parsed.format !== BACKUP_FORMAT) {
+    throw new Error("File is not a Rayminder backup");
+  }
+  if (typeof parsed.version !== "number" || parsed.version > BACKUP_VERSION) {
+    throw new Error(`Unsupported backup version ${String(parsed.version)}`);
+  }
+  const schemaVersion = parsed.schemaVersion ?? 1;
+  if (typeof schemaVersion !== "number" || schemaVersion > CURRENT_SCHEMA_VERSION) {
+    throw new Error("Backup was written by a newer version of the extension");
+  }
+
+  // Records from older backups are upgraded like stored data, so imports never bypass a migration.
+  const data = migrateDataSet(
+    {
+      habits: readArray(parsed, "habits", ["id", "name", "type", "createdAt", "dueAt"]),
+      sessions: readArray(parsed, "sessions", ["id", "habitId", "startedAt"]),
+      completions: readArray(parsed, "completions", ["id", "habitId", "completedAt"]),
+      postpones: readArray(parsed, "postpones", ["id", "habitId", "postponedAt"]),
+      scores: readArray(parsed, "scores", ["day", "capturedAt", "grade"], true),
+      slips: readArray(parsed, "slips", ["id", "habitId", "slippedAt"], true),
+    },
+    schemaVersion,
+  );
+
+  return {
+    format: BACKUP_FORMAT,
+    version: parsed.version,
+    schemaVersion: CURRENT_SCHEMA_VERSION,
+    exportedAt: typeof parsed.exportedAt === "string" ? parsed.exportedAt : new Date().toISOString(),
+    ...data,
+  };
+}
+
+/**
+ * Replace swaps the stored data for the backup. Merge keeps existing entries and only adds backup
+ * entries whose IDs (or score days, or timer habits) are not stored yet.
+ */
+export async function importBackup(backup: RayminderBackup, mode: ImportMode): Promise<ImportSummary> {
+  const summary: ImportSummary = { habits: 0, completions: 0, postpones: 0, slips: 0, skippedDuplicates: 0 };
+
+  await updateDataSet(
+    (stored) => {
+      const current: RayminderDataSet =
+        mode === "replace"
+          ? { habits: [], sessions: [], completions: [], postpones: [], scores: [], slips: [] }
+          : stored;
+
+      const habits = dedupe([...current.habits, ...backup.habits], (entry) => entry.id);
+      const sessions = dedupe([...current.sessions, ...backup.sessions], (entry) => entry.habitId);
+      const completions = dedupe([...current.completions, ...backup.completions], (entry) => entry.id);
+      const postpones = dedupe([...current.postpones, ...backup.postpones], (entry) => entry.id);
+      const scores = dedupe([...current.scores, ...backup.scores], (entry) => entry.day);
+      const slips = dedupe([...current.slips, ...backup.slips], (entry) => entry.id);
+
+      summary.habits = habits.entries.length - current.habits.length;
+      summary.completions = completions.entries.length - current.completions.length;
+      summary.postpones = postpones.entries.length - current.postpones.length;
+      summary.slips = slips.entries.length - current.slips.length;
+      summary.skippedDuplicates =
+        habits.dropped + sessions.dropped + completions.dropped + postpones.dropped + scores.dropped + slips.dropped;
+
+      return {
+        habits: habits.entries,
+        sessions: sessions.entries,
+        completions: completions.entries,
+        postpones: postpones.entries,
+        scores: scores.entries,
+        slips: slips.entries,
+      };
+    },
+    { clearUndo: mode === "replace" },
+  );
+
+  return summary;
+}
+
+function csvCell(value: string | number): string {
+  const text = String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function toCsv(header: string[], rows: (string | number)[][]): string {
+  return [header, ...rows].map((row) => row.map(csvCell).join(",")).join("\n") + "\n";
+}
+
+export function completionsToCsv(completions: CompletionRecord[], habits: Habit[]): string {
+  const names = new Map(habits.map((habit) => [habit.id, habit.name]));
+  return toCsv(
+    ["id", "habitId", "habitName", "completedAt", "durationSeconds", "source", "quantity"],
+    completions.map((entry) => [
+      entry.id,
+      entry.habitId,
+      names.get(entry.habitId) ?? "",
+      entry.completedAt,
+      entry.durationSeconds,
+      entry.source,
+      entry.quantity ?? "",
+    ]),
+  );
+}
+
+export function postponesToCsv(postpones: PostponeRecord[], habits: Habit[]): string {
+  const names = new Map(habits.map((habit) => [habit.id, habit.name]));
+  return toCsv(
+    ["id", "habitId", "habitName", "postponedAt", "minutes"],
+    postpones.map((entry) => [entry.id, entry.habitId, names.get(entry.habitId) ?? "", entry.postponedAt, entry.minutes]),
+  );
+}
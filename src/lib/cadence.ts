@@ -0,0 +1,126 @@
+import { getPreferenceValues } from "@raycast/api";
+import { periodEnd, periodProgress, targetPeriodOf } from "./period";
+import { isQuantityHabit, totalQuantity } from "./quantity";
+import { dayWindowStart, nextOccurrence, parseTimeWindow, startOfDay } from "./time";
+import { CompletionRecord, Habit, RayminderPreferences, RescheduleMode } from "./types";
+
+export const RESCHEDULE_MODE_LABELS: Record<RescheduleMode, string> = {
+  "from-completion": "From completion",
+  fixed: "Fixed cadence",
+  "catch-up": "Catch up",
+};
+
+/** Upper bound when walking the grid, so a long-abandoned habit cannot stall the UI. */
+const MAX_QUEUED_OCCURRENCES = 100;
+
+export function rescheduleModeOf(habit: Pick<Habit, "rescheduleMode">): RescheduleMode {
+  return habit.rescheduleMode ?? "from-completion";
+}
+
+/** The grid slot of the current occurrence, which a postpone does not move. */
+export function currentSlot(habit: Pick<Habit, "dueAt" | "scheduledAt">): Date {
+  return new Date(habit.scheduledAt ?? habit.dueAt);
+}
+
+/** The slot right after `slot` on the habit's grid: the next calendar time, or one interval later. */
+export function followingSlot(habit: Pick<Habit, "schedule" | "intervalMinutes">, slot: Date): Date {
+  return nextOccurrence(habit.schedule, habit.intervalMinutes, slot);
+}
+
+/**
+ * Next due time after completing at `now`.
+ * - from-completion: one interval after the completion (calendar schedules: the next slot).
+ * - fixed: the first grid slot after now, skipping slots that were missed.
+ * - catch-up: the slot after the current one, even if it is already past, so missed occurrences queue up.
+ */
+export function nextDueAfterCompletion(habit: Habit, now: Date): Date {
+  const slot = currentSlot(habit);
+  const mode = rescheduleModeOf(habit);
+
+  if (mode === "catch-up") {
+    return followingSlot(habit, slot);
+  }
+
+  if (mode === "fixed") {
+    const next = followingSlot(habit, slot);
+    if (next.getTime() > now.getTime()) {
+      return next;
+    }
+    if (habit.schedule && habit.schedule.kind !== "interval") {
+      return nextOccurrence(habit.schedule, habit.intervalMinutes, now);
+    }
+    const intervalMs = Math.max(1, habit.intervalMinutes) * 60_000;
+    const skipped = Math.floor((now.getTime() - slot.getTime()) / intervalMs) + 1;
+    return new Date(slot.getTime() + skipped * intervalMs);
+  }
+
+  // Completing a calendar slot early must not land on the same slot again.
+  const hasCalendar = Boolean(habit.schedule && habit.schedule.kind !== "interval");
+  const base = hasCalendar ? new Date(Math.max(now.getTime(), new Date(habit.dueAt).getTime())) : now;
+  return nextOccurrence(habit.schedule, habit.intervalMinutes, base);
+}
+
+/** Occurrences of a catch-up habit that are already due, including the current one. */
+export function queuedOccurrences(habit: Habit, now = new Date()): number {
+  if (rescheduleModeOf(habit) !== "catch-up") {
+    return 0;
+  }
+
+  let count = 0;
+  let slot = currentSlot(habit);
+  while (slot.getTime() <= now.getTime() && count < MAX_QUEUED_OCCURRENCES) {
+    count += 1;
+    slot = followingSlot(habit, slot);
+  }
+  return count;
+}
+
+/** Completions of `habit` since the start of `now`'s day. */
+export function todaysCompletions(
+  habit: Pick<Habit, "id">,
+  completions: CompletionRecord[],
+  now = new Date(),
+): CompletionRecord[] {
+  const dayStart = startOfDay(now).getTime();
+  return completions.filter((entry) => {
+    const completed = new Date(entry.completedAt).getTime();
+    return entry.habitId === habit.id && completed >= dayStart && completed <= now.getTime();
+  });
+}
+
+/**
+ * Measurable habits compare today's logged amount with their daily target, others count the repetitions
+ * of their target period (day, week or month).
+ */
+export function isTargetMet(habit: Habit, completions: CompletionRecord[], now = new Date()): boolean {
+  if (habit.type !== "habit") {
+    return false;
+  }
+  if (isQuantityHabit(habit)) {
+    return totalQuantity(todaysCompletions(habit, completions, now)) >= habit.quantity.dailyTarget;
+  }
+  const progress = periodProgress(habit, completions, now);
+  return progress.count >= progress.target;
+}
+
+/**
+ * Where a habit resumes once the target of its current period is met: its first scheduled time in the
+ * next period, or for interval habits the start of that period's first day window (after quiet hours
+ * that cover the early morning).
+ */
+export function nextPeriodStart(habit: Habit, now = new Date()): Date {
+  const resume = periodEnd(targetPeriodOf(habit), now);
+  if (habit.schedule && habit.schedule.kind !== "interval") {
+    return nextOccurrence(habit.schedule, habit.intervalMinutes, new Date(resume.getTime() - 1));
+  }
+  if (habit.ignoreQuietHours) {
+    return resume;
+  }
+
+  const preferences = getPreferenceValues<RayminderPreferences>();
+  return dayWindowStart(
+    resume,
+    parseTimeWindow(preferences.quietHoursWeekday),
+    parseTimeWindow(preferences.quietHoursWeekend),
+  );
+}
@@ -0,0 +1,35 @@
+import { uid } from "./id";
+import { ChecklistItem, Habit } from "./types";
+
+export function isChecklistComplete(habit: Pick<Habit, "checklist">): boolean {
+  return Boolean(habit.checklist && habit.checklist.length > 0 && habit.checklist.every((item) => item.done));
+}
+
+/** Share of ticked entries, or undefined when the item has no checklist. */
+export function checklistProgress(habit: Pick<Habit, "checklist">): number | undefined {
+  if (!habit.checklist || habit.checklist.length === 0) {
+    return undefined;
+  }
+  return habit.checklist.filter((item) => item.done).length / habit.checklist.length;
+}
+
+export function checklistToText(checklist: ChecklistItem[] | undefined): string {
+  return (checklist ?? []).map((item) => item.title).join("\n");
+}
+
+/**
+ * Reads one entry per line. Entries whose title is unchanged keep their ID and ticked state, so
+ * editing the list mid-way through does not lose progress.
+ */
+export function parseChecklist(raw: string, previous: ChecklistItem[] = []): ChecklistItem[] | undefined {
+  const unused = [...previous];
+  const items = raw
+    .split("\n")
+    .map((line) => line.replace(/^\s*(?:[-*]\s*)?(?:\[[ xX]?\]\s*)?/, "").trim())
+    .filter(Boolean)
+    .map((title) => {
+      const match = unused.findIndex((item) => item.title === title);
+      return match >= 0 ? unused.splice(match, 1)[0] : { id: uid(), title, done: false };
+    });
+  return items.length > 0 ? items : undefined;
+}
@@ -0,0 +1,47 @@
+import { showToast, Toast } from "@raycast/api";
+import { undoChange } from "./storage";
+
+/**
+ * Success toast for a journaled mutation. Its "Undo" action reverts exactly the change `undoId`
+ * names, even if more changes were journaled after it.
+ */
+export async function showUndoableToast(options: {
+  title: string;
+  message?: string;
+  undoId?: string;
+  onUndone?: () => Promise<void> | void;
+}): Promise<void> {
+  const { undoId } = options;
+  const toast = await showToast({ style: Toast.Style.Success, title: options.title, message: options.message });
+
+  if (!undoId) {
+    return;
+  }
+
+  toast.primaryAction = {
+    title: "Undo",
+    shortcut: { modifiers: ["cmd"], key: "z" },
+    onAction: async () => {
+      await undoWithFeedback(undoId);
+      if (options.onUndone) {
+        await options.onUndone();
+      }
+    },
+  };
+}
+
+export async function undoWithFeedback(entryId?: string): Promise<void> {
+  try {
+    const label = await undoChange(entryId);
+    await showToast({
+      style: label ? Toast.Style.Success : Toast.Style.Failure,
+      title: label ? `Undone: ${label}` : "Nothing to undo",
+    });
+  } catch (error) {
+    await showToast({
+      style: Toast.Style.Failure,
+      title: "Unable to undo",
+      message: error instanceof Error ? error.message : String(error),
+    });
+  }
+}
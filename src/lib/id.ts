@@ -0,0 +1,4 @@
+/** Short, time-ordered unique id for stored records. */
+export function uid(): string {
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+}
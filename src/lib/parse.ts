@@ -0,0 +1,227 @@
+import { HabitDraft, HabitSchedule, TargetPeriod } from "./types";
+import { approximateIntervalMinutes, describeSchedule, minutesBetween } from "./time";
+
+export interface ParsedHabitPhrase {
+  draft: HabitDraft;
+  /** Human-readable notes on what was recognized, in phrase order. */
+  understood: string[];
+  deadline?: Date;
+}
+
+const DEFAULT_DEADLINE_HOUR = 17;
+
+const WEEKDAY_NAMES: Record<string, number> = {
+  sun: 0,
+  sunday: 0,
+  mon: 1,
+  monday: 1,
+  tue: 2,
+  tues: 2,
+  tuesday: 2,
+  wed: 3,
+  wednesday: 3,
+  thu: 4,
+  thur: 4,
+  thurs: 4,
+  thursday: 4,
+  fri: 5,
+  friday: 5,
+  sat: 6,
+  saturday: 6,
+};
+
+const WEEKDAY_PATTERN = Object.keys(WEEKDAY_NAMES)
+  .sort((a, b) => b.length - a.length)
+  .join("|");
+const CLOCK_PATTERN = "\\d{1,2}(?::\\d{2})?\\s*(?:am|pm)|\\d{1,2}:\\d{2}";
+const MINUTE_UNITS = "m|min|mins|minute|minutes";
+const HOUR_UNITS = "h|hr|hrs|hour|hours";
+
+/** Normalizes "9am", "5:30 pm" or "14:00" to "HH:MM". */
+function toClock(raw: string): string | undefined {
+  const match = /^(\d{1,2})(?::(\d{2}))?\s*(am|pm)?$/i.exec(raw.trim());
+  if (!match) {
+    return undefined;
+  }
+
+  let hours = Number.parseInt(match[1], 10);
+  const minutes = match[2] ? Number.parseInt(match[2], 10) : 0;
+  const meridiem = match[3]?.toLowerCase();
+  if (meridiem === "pm" && hours < 12) hours += 12;
+  if (meridiem === "am" && hours === 12) hours = 0;
+  if (hours > 23 || minutes > 59) {
+    return undefined;
+  }
+  return `${String(hours).padStart(2, "0")}:${String(minutes).padStart(2, "0")}`;
+}
+
+function toMinutes(amount: string, unit: string): number {
+  const value = Number.parseFloat(amount);
+  return Math.max(1, Math.round(new RegExp(`^(?:${HOUR_UNITS})$`, "i").test(unit) ? value * 60 : value));
+}
+
+function resolveDeadline(dayPart: string, clock: string | undefined, now: Date): Date | undefined {
+  const [hours, minutes] = (clock ?? `${DEFAULT_DEADLINE_HOUR}:00`).split(":").map((part) => Number.parseInt(part, 10));
+  const day = dayPart.toLowerCase();
+  const at = (offset: number) => new Date(now.getFullYear(), now.getMonth(), now.getDate() + offset, hours, minutes);
+
+  if (day === "today" || day === "tonight" || day === "") {
+    return at(0);
+  }
+  if (day === "tomorrow") {
+    return at(1);
+  }
+  if (day in WEEKDAY_NAMES) {
+    const offset = (WEEKDAY_NAMES[day] - now.getDay() + 7) % 7;
+    const candidate = at(offset);
+    return candidate.getTime() > now.getTime() ? candidate : at(offset + 7);
+  }
+
+  const isoDate = /^(\d{4})-(\d{2})-(\d{2})$/.exec(day);
+  if (isoDate) {
+    return new Date(
+      Number.parseInt(isoDate[1], 10),
+      Number.parseInt(isoDate[2], 10) - 1,
+      Number.parseInt(isoDate[3], 10),
+      hours,
+      minutes,
+    );
+  }
+  return undefined;
+}
+
+/**
+ * Parses quick-add phrases such as "drink water every 90m 6x", "task: file taxes by friday 17:00",
+ * "gym 3x per week" or "meditate daily 20min" into a draft. Recognized fragments are removed; what
+ * remains is the name. Deadlines without a time default to 17:00.
+ */
+export function parseHabitPhrase(text: string, now = new Date()): ParsedHabitPhrase {
+  let rest = ` ${text.trim()} `;
+  const understood: string[] = [];
+
+  const take = (pattern: RegExp): RegExpExecArray | null => {
+    const match = pattern.exec(rest);
+    if (match) {
+      rest = `${rest.slice(0, match.index)} ${rest.slice(match.index + match[0].length)}`;
+    }
+    return match;
+  };
+
+  let type: HabitDraft["type"] = take(/^\s*(?:task|todo)\s*:\s*/i) ? "task" : "habit";
+
+  let deadline: Date | undefined;
+  const deadlineMatch = take(
+    new RegExp(
+      `\\bby\\s+(today|tonight|tomorrow|${WEEKDAY_PATTERN}|\\d{4}-\\d{2}-\\d{2})?(?:\\s*(?:at\\s+)?(${CLOCK_PATTERN}))?(?=\\s)`,
+      "i",
+    ),
+  );
+  if (deadlineMatch && (deadlineMatch[1] || deadlineMatch[2])) {
+    deadline = resolveDeadline(deadlineMatch[1] ?? "", deadlineMatch[2] ? toClock(deadlineMatch[2]) : undefined, now);
+    type = "task";
+  }
+
+  let intervalMinutes: number | undefined;
+  const everyMatch = take(new RegExp(`\\bevery\\s+(\\d+(?:\\.\\d+)?)\\s*(${MINUTE_UNITS}|${HOUR_UNITS})\\b`, "i"));
+  if (everyMatch) {
+    intervalMinutes = toMinutes(everyMatch[1], everyMatch[2]);
+  }
+  const everyDaysMatch = take(/\bevery\s+(\d+)\s*(?:d|days?)\b/i);
+  if (everyDaysMatch) {
+    intervalMinutes = Number.parseInt(everyDaysMatch[1], 10) * 1440;
+  }
+
+  const daily = Boolean(take(/\b(?:daily|every\s+day|each\s+day)\b/i));
+
+  let weekdays: number[] | undefined;
+  if (take(/\b(?:every\s+)?weekdays?\b/i)) {
+    weekdays = [1, 2, 3, 4, 5];
+  } else if (take(/\b(?:every\s+)?weekends?\b/i)) {
+    weekdays = [0, 6];
+  } else {
+    const listMatch = take(
+      new RegExp(`\\b(?:on\\s+|every\\s+)?((?:${WEEKDAY_PATTERN})(?:\\s*(?:,|/|&|and)\\s*(?:${WEEKDAY_PATTERN}))*)\\b`, "i"),
+    );
+    if (listMatch) {
+      weekdays = [
+        ...new Set(
+          listMatch[1]
+            .split(/\s*(?:,|\/|&|\band\b)\s*/i)
+            .map((name) => WEEKDAY_NAMES[name.toLowerCase()])
+            .filter((weekday) => weekday !== undefined),
+        ),
+      ];
+    }
+  }
+
+  const times: string[] = [];
+  for (;;) {
+    const timeMatch = take(new RegExp(`\\b(?:at\\s+|and\\s+)?(${CLOCK_PATTERN})(?=\\s|,)`, "i"));
+    const clock = timeMatch ? toClock(timeMatch[1]) : undefined;
+    if (!timeMatch) {
+      break;
+    }
+    if (clock) {
+      times.push(clock);
+    }
+  }
+
+  let repetitions = 1;
+  let targetPeriod: TargetPeriod = "day";
+  const repetitionMatch = take(/\b(\d+)\s*(?:x|times)(?:\s*(?:a|per|\/)\s*(day|week|month))?\b/i);
+  if (repetitionMatch) {
+    repetitions = Math.max(1, Number.parseInt(repetitionMatch[1], 10));
+    targetPeriod = (repetitionMatch[2]?.toLowerCase() as TargetPeriod | undefined) ?? "day";
+  }
+
+  let expectedDurationMinutes: number | undefined;
+  const durationMatch = take(new RegExp(`\\b(?:for\\s+)?(\\d+(?:\\.\\d+)?)\\s*(${MINUTE_UNITS}|${HOUR_UNITS})\\b`, "i"));
+  if (durationMatch) {
+    expectedDurationMinutes = toMinutes(durationMatch[1], durationMatch[2]);
+  }
+
+  let schedule: HabitSchedule | undefined;
+  if (type === "habit" && weekdays && weekdays.length > 0) {
+    schedule = { kind: "weekly", weekdays, times: times.length > 0 ? times : ["09:00"] };
+  } else if (type === "habit" && times.length > 0) {
+    schedule = { kind: "daily", times };
+  } else if ((daily || targetPeriod !== "day") && !intervalMinutes) {
+    // "3x per week" checks in once a day rather than every hour.
+    intervalMinutes = 1440;
+  }
+
+  if (type === "task" && deadline) {
+    intervalMinutes = Math.max(1, minutesBetween(now, deadline));
+  }
+
+  const name = rest.replace(/\s+/g, " ").replace(/^[\s,:-]+|[\s,:-]+$/g, "");
+  const draft: HabitDraft = {
+    name,
+    type,
+    intervalMinutes: (schedule && approximateIntervalMinutes(schedule)) ?? intervalMinutes ?? 60,
+    schedule,
+    targetRepetitionsPerDay: repetitions,
+    targetPeriod: type === "habit" && targetPeriod !== "day" ? targetPeriod : undefined,
+    expectedDurationMinutes,
+    deadline: type === "task" && deadline ? deadline.toISOString() : undefined,
+  };
+
+  understood.push(type === "task" ? "One-time task" : "Recurring habit");
+  if (deadline) {
+    understood.push(
+      `Due ${deadline.toLocaleString([], { weekday: "short", month: "short", day: "numeric", hour: "2-digit", minute: "2-digit" })}`,
+    );
+  } else if (type === "habit") {
+    understood.push(`Schedule: ${describeSchedule(draft.schedule, draft.intervalMinutes)}`);
+  } else {
+    understood.push(`Due in ${draft.intervalMinutes}m`);
+  }
+  if (repetitionMatch) {
+    understood.push(`${repetitions}x per ${type === "habit" ? targetPeriod : "day"}`);
+  }
+  if (expectedDurationMinutes) {
+    understood.push(`${expectedDurationMinutes}m per repetition`);
+  }
+
+  return { draft, understood, deadline };
+}
@@ -0,0 +1,116 @@
+import { isQuantityHabit } from "./quantity";
+import { addDays, dayKey, daysBetween, startOfDay, startOfMonth, startOfWeek } from "./time";
+import { CompletionRecord, Habit, TargetPeriod } from "./types";
+
+export const TARGET_PERIOD_LABELS: Record<TargetPeriod, string> = {
+  day: "Per day",
+  week: "Per week",
+  month: "Per month",
+};
+
+/** Suffix for counts of periods, as in "3w streak". */
+export const PERIOD_UNITS: Record<TargetPeriod, string> = {
+  day: "d",
+  week: "w",
+  month: "mo",
+};
+
+const CURRENT_PERIOD_LABELS: Record<TargetPeriod, string> = {
+  day: "today",
+  week: "this week",
+  month: "this month",
+};
+
+export interface PeriodProgress {
+  period: TargetPeriod;
+  start: Date;
+  end: Date;
+  count: number;
+  target: number;
+  /** Days left in the period, today included. */
+  daysLeft: number;
+  /** Share of the target a steady pace would have reached by the start of today. */
+  pace: number;
+}
+
+/** Measurable habits always track a daily amount, so only counted habits use longer periods. */
+export function targetPeriodOf(habit: Pick<Habit, "type" | "targetPeriod" | "quantity">): TargetPeriod {
+  if (habit.type !== "habit" || isQuantityHabit(habit)) {
+    return "day";
+  }
+  return habit.targetPeriod ?? "day";
+}
+
+/** Start of the day, week (Monday) or month containing `date`. */
+export function periodStart(period: TargetPeriod, date: Date): Date {
+  if (period === "week") {
+    return startOfWeek(date);
+  }
+  if (period === "month") {
+    return startOfMonth(date);
+  }
+  return startOfDay(date);
+}
+
+/** Start of the period after the one containing `date`. */
+export function periodEnd(period: TargetPeriod, date: Date): Date {
+  const start = periodStart(period, date);
+  if (period === "week") {
+    return addDays(start, 7);
+  }
+  if (period === "month") {
+    return startOfMonth(start, 1);
+  }
+  return addDays(start, 1);
+}
+
+/** Bucket key of the period containing `date`: the day key of its first day. */
+export function periodKey(period: TargetPeriod, date: Date | string): string {
+  return dayKey(periodStart(period, typeof date === "string" ? new Date(date) : date));
+}
+
+export function periodProgress(
+  habit: Pick<Habit, "id" | "type" | "targetPeriod" | "quantity" | "targetRepetitionsPerDay">,
+  completions: CompletionRecord[],
+  now = new Date(),
+): PeriodProgress {
+  const period = targetPeriodOf(habit);
+  const start = periodStart(period, now);
+  const end = periodEnd(period, now);
+  const count = completions.filter((entry) => {
+    const completed = new Date(entry.completedAt).getTime();
+    return entry.habitId === habit.id && completed >= start.getTime() && completed <= now.getTime();
+  }).length;
+  const totalDays = daysBetween(start, end);
+  const elapsedDays = daysBetween(start, now);
+
+  return {
+    period,
+    start,
+    end,
+    count,
+    target: Math.max(1, habit.targetRepetitionsPerDay),
+    daysLeft: totalDays - elapsedDays,
+    pace: elapsedDays / totalDays,
+  };
+}
+
+/**
+ * How far a weekly or monthly target is falling behind: 0 once met, rising to 1 when a repetition is
+ * needed on every day that is left. Daily targets have no pressure of their own.
+ */
+export function periodPressure(progress: PeriodProgress): number {
+  if (progress.period === "day" || progress.count >= progress.target) {
+    return 0;
+  }
+  return Math.min(1, (progress.target - progress.count) / Math.max(1, progress.daysLeft));
+}
+
+/** "2/3 this week · 4 days left" */
+export function describePeriodProgress(progress: PeriodProgress): string {
+  const text = `${progress.count}/${progress.target} ${CURRENT_PERIOD_LABELS[progress.period]}`;
+  if (progress.period === "day" || progress.count >= progress.target) {
+    return text;
+  }
+  return `${text} · ${progress.daysLeft} ${progress.daysLeft === 1 ? "day" : "days"} left`;
+}
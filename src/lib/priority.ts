@@ -0,0 +1,30 @@
+import { Habit, Priority } from "./types";
+
+export const PRIORITIES: Priority[] = ["high", "normal", "low"];
+
+export const PRIORITY_LABELS: Record<Priority, string> = {
+  high: "High",
+  normal: "Normal",
+  low: "Low",
+};
+
+const PRIORITY_RANK: Record<Priority, number> = {
+  high: 2,
+  normal: 1,
+  low: 0,
+};
+
+export function priorityOf(habit: Pick<Habit, "priority">): Priority {
+  return habit.priority ?? "normal";
+}
+
+/** Higher priority first, then earliest due time. */
+export function compareByPriority(a: Habit, b: Habit): number {
+  const rank = PRIORITY_RANK[priorityOf(b)] - PRIORITY_RANK[priorityOf(a)];
+  return rank !== 0 ? rank : new Date(a.dueAt).getTime() - new Date(b.dueAt).getTime();
+}
+
+/** A task whose absolute deadline has passed. Postponing moves the reminder, not the deadline. */
+export function isMissedDeadline(habit: Habit, now = new Date()): boolean {
+  return habit.type === "task" && Boolean(habit.deadline) && new Date(habit.deadline as string).getTime() <= now.getTime();
+}
@@ -0,0 +1,31 @@
+import { CompletionRecord, Habit, HabitQuantity } from "./types";
+
+export function isQuantityHabit<T extends Pick<Habit, "type" | "quantity">>(
+  habit: T,
+): habit is T & { quantity: HabitQuantity } {
+  return habit.type === "habit" && Boolean(habit.quantity && habit.quantity.dailyTarget > 0);
+}
+
+/** Parses "500", "1.5", "2,5" or "10k" into a positive amount. */
+export function parseQuantity(raw: string | undefined): number | undefined {
+  const match = (raw ?? "").trim().match(/^(\d+(?:[.,]\d+)?)\s*(k)?$/i);
+  if (!match) {
+    return undefined;
+  }
+  const amount = Number.parseFloat(match[1].replace(",", ".")) * (match[2] ? 1000 : 1);
+  return amount > 0 ? amount : undefined;
+}
+
+export function formatQuantity(amount: number, unit: string): string {
+  const rounded = Math.round(amount * 100) / 100;
+  return `${rounded.toLocaleString()} ${unit}`.trim();
+}
+
+export function totalQuantity(completions: CompletionRecord[]): number {
+  return completions.reduce((total, entry) => total + (entry.quantity ?? 0), 0);
+}
+
+/** One-click amount for reminders and the dashboard: the daily amount split across the daily repetitions. */
+export function quickLogAmount(habit: Pick<Habit, "targetRepetitionsPerDay"> & { quantity: HabitQuantity }): number {
+  return Math.round((habit.quantity.dailyTarget / Math.max(1, habit.targetRepetitionsPerDay)) * 100) / 100;
+}
@@ -0,0 +1,73 @@
+import { minutesBetween } from "./time";
+import { Habit, ReminderStyle } from "./types";
+
+export const REMINDER_STYLE_LABELS: Record<ReminderStyle, string> = {
+  toast: "Toast with actions",
+  hud: "HUD message",
+  silent: "Silent (dashboard only)",
+};
+
+/** Avoid items have nothing to do, so they are never overdue. */
+export function isOverdue(habit: Habit, now: Date): boolean {
+  return habit.type !== "avoid" && new Date(habit.dueAt).getTime() <= now.getTime();
+}
+
+export function reminderStyle(habit: Habit): ReminderStyle {
+  return habit.reminderPolicy?.style ?? "toast";
+}
+
+/** Share of the throttle left at full period pressure; reminders then come four times as often. */
+const MIN_PRESSURE_THROTTLE = 0.25;
+
+/**
+ * Minutes between reminders right now, taking escalation after a long overdue stretch into account.
+ * `pressure` (see `periodPressure`) shortens the gap as a weekly or monthly target runs out of time.
+ */
+export function reminderThrottle(habit: Habit, now: Date, defaultThrottleMinutes: number, pressure = 0): number {
+  const policy = habit.reminderPolicy;
+  let throttle = policy?.throttleMinutes ?? defaultThrottleMinutes;
+  if (
+    policy?.escalateAfterMinutes !== undefined &&
+    policy.escalatedThrottleMinutes !== undefined &&
+    minutesBetween(habit.dueAt, now) >= policy.escalateAfterMinutes
+  ) {
+    throttle = policy.escalatedThrottleMinutes;
+  }
+  if (pressure <= 0) {
+    return throttle;
+  }
+  return Math.max(1, Math.round(throttle * (1 - (1 - MIN_PRESSURE_THROTTLE) * Math.min(1, pressure))));
+}
+
+/** Whether an overdue item's policy allows another reminder now. Quiet hours are checked by the caller. */
+export function isReminderDue(habit: Habit, now: Date, defaultThrottleMinutes: number, pressure = 0): boolean {
+  if (!isOverdue(habit, now) || reminderStyle(habit) === "silent") {
+    return false;
+  }
+
+  const maxReminders = habit.reminderPolicy?.maxReminders;
+  if (maxReminders !== undefined && (habit.reminderCount ?? 0) >= maxReminders) {
+    return false;
+  }
+
+  if (!habit.lastReminderAt) {
+    return true;
+  }
+  return minutesBetween(habit.lastReminderAt, now) >= reminderThrottle(habit, now, defaultThrottleMinutes, pressure);
+}
+
+export function describeReminderPolicy(habit: Habit, defaultThrottleMinutes: number): string {
+  const policy = habit.reminderPolicy;
+  if (reminderStyle(habit) === "silent") {
+    return "silent";
+  }
+
+  const parts = [`${reminderStyle(habit) === "hud" ? "HUD" : "toast"} every ${policy?.throttleMinutes ?? defaultThrottleMinutes}m`];
+  if (policy?.escalateAfterMinutes !== undefined && policy.escalatedThrottleMinutes !== undefined) {
+    parts.push(`every ${policy.escalatedThrottleMinutes}m after ${policy.escalateAfterMinutes}m overdue`);
+  }
+  if (policy?.maxReminders !== undefined) {
+    parts.push(`at most ${policy.maxReminders}×`);
+  }
+  return parts.join(", ");
+}
@@ -0,0 +1,289 @@
+import { periodEnd, periodStart, targetPeriodOf } from "./period";
+import { isQuantityHabit } from "./quantity";
+import { CompletionRecord, Habit, PostponeRecord } from "./types";
+import { addDays, dayKey, formatDuration, startOfDay, startOfMonth, startOfWeek } from "./time";
+
+export type ReportPeriodKind = "week" | "month";
+
+export interface ReportPeriod {
+  kind: ReportPeriodKind;
+  /** Stable identifier, e.g. "week-2026-10-12" or "month-2026-10". */
+  key: string;
+  label: string;
+  start: Date;
+  /** Exclusive. */
+  end: Date;
+}
+
+export interface ReportData {
+  habits: Habit[];
+  completions: CompletionRecord[];
+  postpones: PostponeRecord[];
+}
+
+interface PeriodSummary {
+  completions: CompletionRecord[];
+  postpones: PostponeRecord[];
+  trackedSeconds: number;
+  /**
+   * Expected vs. achieved repetitions of recurring habits, capped at each day's (or week's, month's)
+   * target. Measurable habits count one per day whose amount was reached.
+   */
+  expected: number;
+  achieved: number;
+  byHabit: { habit: Habit; achieved: number; expected: number; completions: number; postpones: number }[];
+}
+
+/** The week (Monday start) or calendar month containing `now`, shifted by `offset` periods. */
+export function reportPeriod(kind: ReportPeriodKind, offset = 0, now = new Date()): ReportPeriod {
+  if (kind === "week") {
+    const start = addDays(startOfWeek(now), offset * 7);
+    const end = addDays(start, 7);
+    const last = addDays(end, -1);
+    const format = (date: Date) => date.toLocaleDateString([], { month: "short", day: "numeric" });
+    return {
+      kind,
+      key: `week-${dayKey(start)}`,
+      label: `Week of ${format(start)} – ${format(last)}, ${last.getFullYear()}`,
+      start,
+      end,
+    };
+  }
+
+  const start = startOfMonth(now, offset);
+  const end = startOfMonth(start, 1);
+  return {
+    kind,
+    key: `month-${dayKey(start).slice(0, 7)}`,
+    label: start.toLocaleDateString([], { month: "long", year: "numeric" }),
+    start,
+    end,
+  };
+}
+
+export function previousPeriod(period: ReportPeriod): ReportPeriod {
+  return reportPeriod(period.kind, -1, addDays(period.start, 1));
+}
+
+function within<T>(entries: T[], at: (entry: T) => string, start: Date, end: Date): T[] {
+  return entries.filter((entry) => {
+    const time = new Date(at(entry)).getTime();
+    return time >= start.getTime() && time < end.getTime();
+  });
+}
+
+/**
+ * Weekly and monthly targets are judged per whole target period, which counts toward the report period it
+ * ends in. The ongoing one counts toward the current report, and only as far as it is already met.
+ */
+function periodicTargets(
+  habit: Habit,
+  report: ReportPeriod,
+  completions: CompletionRecord[],
+  now: Date,
+): { expected: number; achieved: number } {
+  const period = targetPeriodOf(habit);
+  const target = Math.max(1, habit.targetRepetitionsPerDay);
+  const activeFrom = new Date(habit.createdAt).getTime();
+  const activeUntil = habit.archivedAt ? new Date(habit.archivedAt).getTime() : Number.POSITIVE_INFINITY;
+
+  let expected = 0;
+  let achieved = 0;
+  for (let start = periodStart(period, report.start); start < report.end; start = periodEnd(period, start)) {
+    const end = periodEnd(period, start);
+    const isOngoing = start <= now && now < end;
+    const belongsToReport = isOngoing
+      ? now >= report.start && now < report.end
+      : end > report.start && end <= report.end && end <= now;
+    if (!belongsToReport || end.getTime() <= activeFrom || start.getTime() >= activeUntil) {
+      continue;
+    }
+
+    const met = Math.min(target, within(completions, (entry) => entry.completedAt, start, end).length);
+    expected += isOngoing ? met : target;
+    achieved += met;
+  }
+  return { expected, achieved };
+}
+
+function summarize(period: ReportPeriod, data: ReportData, now: Date): PeriodSummary {
+  // An ongoing period is only judged up to now, and today's open repetitions are not counted as missed.
+  const end = new Date(Math.min(period.end.getTime(), now.getTime()));
+  const today = dayKey(now);
+  const completions = within(data.completions, (entry) => entry.completedAt, period.start, end);
+  const postpones = within(data.postpones, (entry) => entry.postponedAt, period.start, end);
+
+  const countsByHabitDay = new Map<string, number>();
+  const amountsByHabitDay = new Map<string, number>();
+  for (const completion of completions) {
+    const key = `${completion.habitId}:${dayKey(completion.completedAt)}`;
+    countsByHabitDay.set(key, (countsByHabitDay.get(key) ?? 0) + 1);
+    amountsByHabitDay.set(key, (amountsByHabitDay.get(key) ?? 0) + (completion.quantity ?? 0));
+  }
+
+  const byHabit: PeriodSummary["byHabit"] = [];
+  // Avoid items have no completions to rate.
+  for (const habit of data.habits.filter((entry) => entry.type !== "avoid")) {
+    const habitCompletions = completions.filter((entry) => entry.habitId === habit.id).length;
+    const habitPostpones = postpones.filter((entry) => entry.habitId === habit.id).length;
+    if (habit.type === "task") {
+      if (habitCompletions > 0 || habitPostpones > 0) {
+        byHabit.push({ habit, achieved: habitCompletions, expected: 0, completions: habitCompletions, postpones: habitPostpones });
+      }
+      continue;
+    }
+
+    if (targetPeriodOf(habit) !== "day") {
+      const habitHistory = data.completions.filter(
+        (entry) => entry.habitId === habit.id && new Date(entry.completedAt).getTime() <= now.getTime(),
+      );
+      const { expected, achieved } = periodicTargets(habit, period, habitHistory, now);
+      if (expected > 0 || habitCompletions > 0) {
+        byHabit.push({ habit, achieved, expected, completions: habitCompletions, postpones: habitPostpones });
+      }
+      continue;
+    }
+
+    // A measurable habit meets a day by its amount, which counts as a single target.
+    const quantity = isQuantityHabit(habit) ? habit.quantity : undefined;
+    const target = quantity ? 1 : Math.max(1, habit.targetRepetitionsPerDay);
+    const metOn = (key: string) =>
+      quantity
+        ? Number((amountsByHabitDay.get(key) ?? 0) >= quantity.dailyTarget)
+        : Math.min(target, countsByHabitDay.get(key) ?? 0);
+    const activeUntil = habit.archivedAt ? new Date(Math.min(end.getTime(), new Date(habit.archivedAt).getTime())) : end;
+    let expected = 0;
+    let achieved = 0;
+    let day = startOfDay(new Date(Math.max(period.start.getTime(), new Date(habit.createdAt).getTime())));
+    while (day < activeUntil) {
+      const met = metOn(`${habit.id}:${dayKey(day)}`);
+      expected += dayKey(day) === today ? met : target;
+      achieved += met;
+      day = addDays(day, 1);
+    }
+
+    if (expected > 0 || habitCompletions > 0) {
+      byHabit.push({ habit, achieved, expected, completions: habitCompletions, postpones: habitPostpones });
+    }
+  }
+
+  return {
+    completions,
+    postpones,
+    trackedSeconds: completions.reduce((total, entry) => total + entry.durationSeconds, 0),
+    expected: byHabit.reduce((total, entry) => total + entry.expected, 0),
+    achieved: byHabit.reduce((total, entry) => total + (entry.expected > 0 ? entry.achieved : 0), 0),
+    byHabit,
+  };
+}
+
+function rate(achieved: number, expected: number): number | undefined {
+  return expected > 0 ? achieved / expected : undefined;
+}
+
+function formatRate(value: number | undefined): string {
+  return value === undefined ? "n/a" : `${Math.round(value * 100)}%`;
+}
+
+function change(current: number, previous: number, format: (value: number) => string): string {
+  const diff = current - previous;
+  if (diff === 0) {
+    return "no change";
+  }
+  return `${diff > 0 ? "+" : "−"}${format(Math.abs(diff))}`;
+}
+
+function hourLabel(hour: number): string {
+  return `${String(hour).padStart(2, "0")}:00–${String((hour + 1) % 24).padStart(2, "0")}:00`;
+}
+
+/** Markdown report of completions and postpones in `period`, compared with the period before it. */
+export function buildReport(period: ReportPeriod, data: ReportData, now = new Date()): string {
+  const current = summarize(period, data, now);
+  const previous = summarize(previousPeriod(period), data, now);
+  const currentRate = rate(current.achieved, current.expected);
+  const previousRate = rate(previous.achieved, previous.expected);
+  const noun = period.kind === "week" ? "week" : "month";
+
+  const lines = [
+    `# Rayminder Report: ${period.label}`,
+    "",
+    "## Overview",
+    "",
+    `| | This ${noun} | Previous ${noun} | Change |`,
+    "| --- | --- | --- | --- |",
+    `| Completion rate | ${formatRate(currentRate)} | ${formatRate(previousRate)} | ${
+      currentRate !== undefined && previousRate !== undefined
+        ? change(Math.round(currentRate * 100), Math.round(previousRate * 100), (value) => `${value} pts`)
+        : "n/a"
+    } |`,
+    `| Completions | ${current.completions.length} | ${previous.completions.length} | ${change(
+      current.completions.length,
+      previous.completions.length,
+      String,
+    )} |`,
+    `| Tracked time | ${formatDuration(current.trackedSeconds)} | ${formatDuration(previous.trackedSeconds)} | ${change(
+      current.trackedSeconds,
+      previous.trackedSeconds,
+      formatDuration,
+    )} |`,
+    `| Postpones | ${current.postpones.length} | ${previous.postpones.length} | ${change(
+      current.postpones.length,
+      previous.postpones.length,
+      String,
+    )} |`,
+  ];
+
+  const habits = current.byHabit.filter((entry) => entry.expected > 0);
+  if (habits.length > 0) {
+    lines.push("", "## Completion Rate per Habit", "", "| Habit | Rate | Repetitions | Previous |", "| --- | --- | --- | --- |");
+    for (const entry of habits.sort((a, b) => (rate(b.achieved, b.expected) ?? 0) - (rate(a.achieved, a.expected) ?? 0))) {
+      const before = previous.byHabit.find((item) => item.habit.id === entry.habit.id);
+      lines.push(
+        `| ${entry.habit.name} | ${formatRate(rate(entry.achieved, entry.expected))} | ${entry.achieved}/${entry.expected} | ${formatRate(
+          before ? rate(before.achieved, before.expected) : undefined,
+        )} |`,
+      );
+    }
+  }
+
+  const tasks = current.byHabit.filter((entry) => entry.habit.type === "task" && entry.completions > 0);
+  if (tasks.length > 0) {
+    lines.push("", "## Tasks Completed", "", ...tasks.map((entry) => `- ${entry.habit.name}`));
+  }
+
+  const postponed = current.byHabit
+    .filter((entry) => entry.postpones > 0)
+    .sort((a, b) => b.postpones - a.postpones)
+    .slice(0, 5);
+  lines.push("", "## Most Postponed", "");
+  lines.push(
+    ...(postponed.length > 0
+      ? postponed.map((entry) => `- **${entry.habit.name}**: ${entry.postpones}×`)
+      : ["Nothing was postponed."]),
+  );
+
+  const byHour = new Array<number>(24).fill(0);
+  for (const completion of current.completions) {
+    byHour[new Date(completion.completedAt).getHours()] += 1;
+  }
+  const busiest = byHour
+    .map((count, hour) => ({ hour, count }))
+    .filter((entry) => entry.count > 0)
+    .sort((a, b) => b.count - a.count || a.hour - b.hour)
+    .slice(0, 3);
+  const maxCount = busiest[0]?.count ?? 0;
+  lines.push("", "## Busiest Hours", "");
+  lines.push(
+    ...(busiest.length > 0
+      ? busiest.map(
+          (entry) =>
+            `- ${hourLabel(entry.hour)}: ${entry.count} ${entry.count === 1 ? "completion" : "completions"} \`${"█".repeat(
+              Math.max(1, Math.round((entry.count / maxCount) * 10)),
+            )}\``,
+        )
+      : ["No completions in this period."]),
+  );
+
+  return lines.join("\n") + "\n";
+}
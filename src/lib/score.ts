@@ -1,47 +1,187 @@
-import { DailyScore, DailyScoreHabitBreakdown, Habit } from "./types";
-import { listCompletions, listHabits, listPostpones } from "./storage";
-import { startOfDay } from "./time";
+import { getPreferenceValues } from "@raycast/api";
+import {
+  CompletionRecord,
+  DailyCategoryScore,
+  DailyScore,
+  DailyScoreHabitBreakdown,
+  DailyScoreSnapshot,
+  Habit,
+  RayminderPreferences,
+  ScoringStrategy,
+  SlipRecord,
+} from "./types";
+import { listCompletions, listHabits, listPostpones, listScoreSnapshots, listSlips, saveScoreSnapshot } from "./storage";
+import { daysClean, isAvoidItem, slipsToday } from "./avoid";
+import { checklistProgress } from "./checklist";
+import { periodProgress } from "./period";
+import { formatQuantity, isQuantityHabit } from "./quantity";
+import { isOverdue } from "./reminders";
+import { computeHabitStreaks } from "./stats";
+import { groupByCategory } from "./tags";
+import { addDays, dayKey, startOfDay } from "./time";
+
+export interface GradeThreshold {
+  grade: string;
+  minScore: number;
+}
+
+export interface ScoringSettings {
+  strategy: ScoringStrategy;
+  /** Share of the progress that comes from repetitions; the rest comes from tracked duration. */
+  repetitionWeight: number;
+  postponePenalty: number;
+  postponePenaltyCap: number;
+  /** Penalty per elapsed interval of overdue time. */
+  overduePenalty: number;
+  overduePenaltyCap: number;
+  /** Sorted from the highest `minScore` down. Scores below the last threshold get `fallbackGrade`. */
+  grades: GradeThreshold[];
+  fallbackGrade: string;
+}
+
+export const DEFAULT_SCORING: ScoringSettings = {
+  strategy: "progress",
+  repetitionWeight: 0.65,
+  postponePenalty: 0.05,
+  postponePenaltyCap: 0.2,
+  overduePenalty: 0.15,
+  overduePenaltyCap: 0.25,
+  grades: [
+    { grade: "S", minScore: 95 },
+    { grade: "A+", minScore: 90 },
+    { grade: "A", minScore: 80 },
+    { grade: "B", minScore: 70 },
+    { grade: "C", minScore: 60 },
+  ],
+  fallbackGrade: "D",
+};
+
+/** Streak-based scoring gives full streak credit from this many consecutive days on. */
+const STREAK_TARGET_DAYS = 7;
 
 function clamp(value: number, min = 0, max = 1): number {
   return Math.max(min, Math.min(max, value));
 }
 
-function gradeFromScore(score: number): string {
-  if (score >= 95) return "S";
-  if (score >= 90) return "A+";
-  if (score >= 80) return "A";
-  if (score >= 70) return "B";
-  if (score >= 60) return "C";
-  return "D";
+function parseFraction(raw: string | undefined, fallback: number): number {
+  const parsed = Number.parseFloat(raw ?? "");
+  return Number.isNaN(parsed) || parsed < 0 ? fallback : clamp(parsed);
 }
 
-function habitScoreBreakdown(habit: Habit, now: Date, completions: Map<string, number>, duration: Map<string, number>, postpones: Map<string, number>): DailyScoreHabitBreakdown {
-  const repetitionTarget = Math.max(1, habit.targetRepetitionsPerDay);
-  const repetitions = completions.get(habit.id) ?? 0;
-  const repetitionProgress = clamp(repetitions / repetitionTarget);
+/** Reads "S:95, A+:90, A:80" into thresholds; invalid input falls back to the defaults. */
+export function parseGradeThresholds(raw: string | undefined): GradeThreshold[] {
+  const grades = (raw ?? "")
+    .split(",")
+    .map((entry) => /^\s*([^:\s]+)\s*:\s*(\d+(?:\.\d+)?)\s*$/.exec(entry))
+    .filter((match): match is RegExpExecArray => Boolean(match))
+    .map((match) => ({ grade: match[1], minScore: Number.parseFloat(match[2]) }))
+    .sort((a, b) => b.minScore - a.minScore);
+  return grades.length > 0 ? grades : DEFAULT_SCORING.grades;
+}
+
+export function scoringSettingsFromPreferences(preferences: RayminderPreferences): ScoringSettings {
+  return {
+    strategy: preferences.scoringStrategy ?? DEFAULT_SCORING.strategy,
+    repetitionWeight: parseFraction(preferences.scoreRepetitionWeight, DEFAULT_SCORING.repetitionWeight),
+    postponePenalty: parseFraction(preferences.scorePostponePenalty, DEFAULT_SCORING.postponePenalty),
+    postponePenaltyCap: parseFraction(preferences.scorePostponePenaltyCap, DEFAULT_SCORING.postponePenaltyCap),
+    overduePenalty: parseFraction(preferences.scoreOverduePenalty, DEFAULT_SCORING.overduePenalty),
+    overduePenaltyCap: parseFraction(preferences.scoreOverduePenaltyCap, DEFAULT_SCORING.overduePenaltyCap),
+    grades: parseGradeThresholds(preferences.scoreGradeThresholds),
+    fallbackGrade: DEFAULT_SCORING.fallbackGrade,
+  };
+}
+
+export function currentScoringSettings(): ScoringSettings {
+  return scoringSettingsFromPreferences(getPreferenceValues<RayminderPreferences>());
+}
 
-  const durationMinutes = duration.get(habit.id) ?? 0;
+export function gradeFromScore(score: number, settings: ScoringSettings = DEFAULT_SCORING): string {
+  return settings.grades.find((threshold) => score >= threshold.minScore)?.grade ?? settings.fallbackGrade;
+}
+
+function habitScoreBreakdown(
+  habit: Habit,
+  now: Date,
+  settings: ScoringSettings,
+  completions: Map<string, number>,
+  duration: Map<string, number>,
+  quantities: Map<string, number>,
+  postpones: Map<string, number>,
+  history: CompletionRecord[],
+): DailyScoreHabitBreakdown {
+  const period = periodProgress(habit, history, now);
+  const isPeriodic = period.period !== "day";
+  const repetitionTarget = period.target;
+  const repetitions = isPeriodic ? period.count : (completions.get(habit.id) ?? 0);
+  const measured = isQuantityHabit(habit)
+    ? { amount: quantities.get(habit.id) ?? 0, target: habit.quantity.dailyTarget, unit: habit.quantity.unit }
+    : undefined;
+  const isTargetMet = measured ? measured.amount >= measured.target : repetitions >= repetitionTarget;
+  // Ticked checklist steps count as a fraction of the repetition that is still open.
+  const partial = !isTargetMet ? checklistProgress(habit) : undefined;
+  // Weekly and monthly targets are judged against a steady pace through the period, so a day without a
+  // repetition is not a miss while the target can still be reached.
+  const paced = (value: number, target: number) =>
+    isPeriodic ? (isTargetMet || period.pace === 0 ? 1 : clamp(value / (target * period.pace))) : clamp(value / target);
+  // Measurable habits progress with the logged amount instead of the number of repetitions.
+  const repetitionProgress = measured
+    ? clamp(measured.amount / measured.target)
+    : paced(repetitions + (partial ?? 0), repetitionTarget);
+
+  const durationMinutes = isPeriodic
+    ? history
+        .filter(
+          (entry) => entry.habitId === habit.id && new Date(entry.completedAt).getTime() >= period.start.getTime(),
+        )
+        .reduce((total, entry) => total + entry.durationSeconds / 60, 0)
+    : (duration.get(habit.id) ?? 0);
   const durationTargetMinutes = habit.expectedDurationMinutes
     ? habit.expectedDurationMinutes * repetitionTarget
     : 0;
-  const durationProgress = durationTargetMinutes > 0 ? clamp(durationMinutes / durationTargetMinutes) : repetitionProgress;
+  const durationProgress =
+    durationTargetMinutes > 0 ? paced(durationMinutes, durationTargetMinutes) : repetitionProgress;
 
   const postponeCount = postpones.get(habit.id) ?? 0;
   const isOverdue = new Date(habit.dueAt).getTime() < now.getTime();
   const overdueMinutes = isOverdue ? Math.max(0, (now.getTime() - new Date(habit.dueAt).getTime()) / 60_000) : 0;
 
-  const postponePenalty = Math.min(0.2, postponeCount * 0.05);
-  const overduePenalty = Math.min(0.25, overdueMinutes / Math.max(1, habit.intervalMinutes) * 0.15);
+  const postponePenalty = Math.min(settings.postponePenaltyCap, postponeCount * settings.postponePenalty);
+  // Falling behind a weekly or monthly target already shows in the paced progress.
+  const overduePenalty = isPeriodic
+    ? 0
+    : Math.min(
+        settings.overduePenaltyCap,
+        (overdueMinutes / Math.max(1, habit.intervalMinutes)) * settings.overduePenalty,
+      );
 
-  const rawProgress = repetitionProgress * 0.65 + durationProgress * 0.35;
-  const score = Math.round(clamp(rawProgress * (1 - postponePenalty - overduePenalty)) * 100);
+  let progress: number;
+  if (settings.strategy === "binary") {
+    progress = isTargetMet || (isPeriodic && repetitionProgress >= 1) ? 1 : 0;
+  } else if (settings.strategy === "streak") {
+    // Half for today's progress, half for the streak carried into today.
+    const streak = computeHabitStreaks(habit, history, now).currentStreak;
+    progress = repetitionProgress * 0.5 + clamp(streak / STREAK_TARGET_DAYS) * 0.5;
+  } else {
+    const rawProgress = repetitionProgress * settings.repetitionWeight + durationProgress * (1 - settings.repetitionWeight);
+    progress = rawProgress * (1 - postponePenalty - overduePenalty);
+  }
+  const score = Math.round(clamp(progress) * 100);
 
   return {
     habitId: habit.id,
     name: habit.name,
+    category: habit.category?.trim() || undefined,
+    weight: habitWeight(habit),
     repetitions,
     repetitionTarget,
     repetitionProgress,
+    checklistProgress: partial,
+    targetPeriod: isPeriodic ? period.period : undefined,
+    periodPace: isPeriodic ? period.pace : undefined,
+    quantity: measured?.amount,
+    quantityTarget: measured?.target,
+    unit: measured?.unit,
     durationMinutes,
     durationTargetMinutes,
     durationProgress,
@@ -51,9 +191,97 @@ function habitScoreBreakdown(habit: Habit, now: Date, completions: Map<string, n
   };
 }
 
-export async function computeDailyScore(now = new Date()): Promise<DailyScore> {
+/** Avoid items score full marks for a day without slips; the streak strategy also rewards days clean. */
+function avoidScoreBreakdown(
+  habit: Habit,
+  now: Date,
+  settings: ScoringSettings,
+  slips: SlipRecord[],
+): DailyScoreHabitBreakdown {
+  const slipCount = slipsToday(habit, slips, now);
+  const clean = daysClean(habit, slips, now);
+  const todayProgress = slipCount === 0 ? 1 : 0;
+  const progress =
+    settings.strategy === "streak" ? todayProgress * 0.5 + clamp(clean / STREAK_TARGET_DAYS) * 0.5 : todayProgress;
+
+  return {
+    habitId: habit.id,
+    name: habit.name,
+    category: habit.category?.trim() || undefined,
+    weight: habitWeight(habit),
+    repetitions: 0,
+    repetitionTarget: 0,
+    repetitionProgress: todayProgress,
+    slips: slipCount,
+    daysClean: clean,
+    durationMinutes: 0,
+    durationTargetMinutes: 0,
+    durationProgress: todayProgress,
+    postpones: 0,
+    isOverdue: false,
+    score: Math.round(clamp(progress) * 100),
+  };
+}
+
+function habitWeight(habit: Pick<Habit, "scoreWeight">): number {
+  return habit.scoreWeight && habit.scoreWeight > 0 ? habit.scoreWeight : 1;
+}
+
+/** Weighted by each item's score weight; items recorded before weights existed count once. */
+function averageScore(items: DailyScoreHabitBreakdown[]): number {
+  const totalWeight = items.reduce((total, item) => total + (item.weight ?? 1), 0);
+  if (totalWeight === 0) {
+    return 100;
+  }
+  return Math.round(items.reduce((total, item) => total + item.score * (item.weight ?? 1), 0) / totalWeight);
+}
+
+export function percent(rate: number): string {
+  return `${Math.round(rate * 100)}%`;
+}
+
+/** Markdown list line for one item of the breakdown, shared by the dashboard and score history. */
+export function breakdownLine(item: DailyScoreHabitBreakdown): string {
+  const weight = item.weight && item.weight !== 1 ? ` (${item.weight}×)` : "";
+  if (item.slips !== undefined) {
+    return `- **${item.name}**${weight}: ${item.score}/100 | slips ${item.slips} | ${item.daysClean ?? 0}d clean`;
+  }
+
+  const parts = [
+    `${item.score}/100`,
+    item.quantityTarget !== undefined
+      ? `amount ${formatQuantity(item.quantity ?? 0, item.unit ?? "")}/${formatQuantity(item.quantityTarget, item.unit ?? "")}`
+      : `reps ${item.repetitions}/${item.repetitionTarget}${item.targetPeriod ? ` this ${item.targetPeriod}` : ""}`,
+    `time ${Math.round(item.durationMinutes)}m${item.durationTargetMinutes > 0 ? `/${item.durationTargetMinutes}m` : ""}`,
+    `postpones ${item.postpones}`,
+  ];
+  if (item.periodPace !== undefined) {
+    parts.push(`pace ${percent(item.periodPace)}`);
+  }
+  if (item.checklistProgress !== undefined) {
+    parts.push(`steps ${percent(item.checklistProgress)}`);
+  }
+  return `- **${item.name}**${weight}: ${parts.join(" | ")}`;
+}
+
+/** Per-category averages, using the same weighting as the overall score. */
+export function categoryScores(breakdown: DailyScoreHabitBreakdown[]): DailyCategoryScore[] {
+  return groupByCategory(breakdown).map(({ category, items }) => ({
+    category,
+    score: averageScore(items),
+    habitCount: items.length,
+  }));
+}
+
+export async function computeDailyScore(now = new Date(), settings = currentScoringSettings()): Promise<DailyScore> {
   const dayStart = startOfDay(now);
-  const [habits, completionRecords, postponeRecords] = await Promise.all([listHabits(false), listCompletions(), listPostpones()]);
+  const [activeHabits, completionRecords, postponeRecords, slipRecords] = await Promise.all([
+    listHabits(false),
+    listCompletions(),
+    listPostpones(),
+    listSlips(),
+  ]);
+  const habits = activeHabits.filter((habit) => new Date(habit.createdAt).getTime() <= now.getTime());
 
   const todayCompletions = completionRecords.filter((entry) => {
     const completed = new Date(entry.completedAt).getTime();
@@ -67,6 +295,7 @@ export async function computeDailyScore(now = new Date()): Promise<DailyScore> {
 
   const repetitionsByHabit = new Map<string, number>();
   const durationByHabit = new Map<string, number>();
+  const quantityByHabit = new Map<string, number>();
   const postponesByHabit = new Map<string, number>();
 
   for (const completion of todayCompletions) {
@@ -75,25 +304,72 @@ export async function computeDailyScore(now = new Date()): Promise<DailyScore> {
       completion.habitId,
       (durationByHabit.get(completion.habitId) ?? 0) + completion.durationSeconds / 60,
     );
+    quantityByHabit.set(
+      completion.habitId,
+      (quantityByHabit.get(completion.habitId) ?? 0) + (completion.quantity ?? 0),
+    );
   }
 
   for (const postpone of todayPostpones) {
     postponesByHabit.set(postpone.habitId, (postponesByHabit.get(postpone.habitId) ?? 0) + 1);
   }
 
-  const breakdown = habits.map((habit) => habitScoreBreakdown(habit, now, repetitionsByHabit, durationByHabit, postponesByHabit));
+  const history = completionRecords.filter((entry) => new Date(entry.completedAt).getTime() <= now.getTime());
+  const breakdown = habits.map((habit) =>
+    isAvoidItem(habit)
+      ? avoidScoreBreakdown(habit, now, settings, slipRecords)
+      : habitScoreBreakdown(
+          habit,
+          now,
+          settings,
+          repetitionsByHabit,
+          durationByHabit,
+          quantityByHabit,
+          postponesByHabit,
+          history,
+        ),
+  );
 
-  const average = breakdown.length === 0 ? 100 : Math.round(breakdown.reduce((total, item) => total + item.score, 0) / breakdown.length);
+  const average = averageScore(breakdown);
   const completedCount = todayCompletions.length;
   const totalTrackedMinutes = Math.round(todayCompletions.reduce((total, item) => total + item.durationSeconds / 60, 0));
-  const dueNowCount = habits.filter((habit) => new Date(habit.dueAt).getTime() <= now.getTime()).length;
+  const dueNowCount = habits.filter((habit) => isOverdue(habit, now)).length;
 
   return {
     score: average,
-    grade: gradeFromScore(average),
+    grade: gradeFromScore(average, settings),
+    strategy: settings.strategy,
     completedCount,
     totalTrackedMinutes,
     dueNowCount,
     breakdown,
+    categories: categoryScores(breakdown),
+  };
+}
+
+/**
+ * Freezes the score of the most recently closed day. Runs on the first background check of a new day,
+ * before `dueAt` values move on and rewrite the overdue penalties of that day.
+ */
+export async function recordClosedDaySnapshot(now = new Date()): Promise<DailyScoreSnapshot | undefined> {
+  const todayStart = startOfDay(now);
+  const day = dayKey(addDays(todayStart, -1));
+  const snapshots = await listScoreSnapshots();
+  if (snapshots.some((snapshot) => snapshot.day === day)) {
+    return undefined;
+  }
+
+  const score = await computeDailyScore(new Date(todayStart.getTime() - 1));
+  if (score.breakdown.length === 0) {
+    return undefined;
+  }
+
+  const snapshot: DailyScoreSnapshot = {
+    ...score,
+    day,
+    capturedAt: now.toISOString(),
   };
+
+  await saveScoreSnapshot(snapshot);
+  return snapshot;
 }
@@ -0,0 +1,105 @@
+import { periodEnd, periodKey, periodStart, targetPeriodOf } from "./period";
+import { isQuantityHabit } from "./quantity";
+import { CompletionRecord, Habit, TargetPeriod } from "./types";
+import { addDays, dayKey, daysBetween, parseDayKey, startOfDay } from "./time";
+
+export interface HabitStreakStats {
+  /** Unit of the streaks: consecutive days, weeks or months with the target met. */
+  period: TargetPeriod;
+  currentStreak: number;
+  longestStreak: number;
+  completionRate7: number;
+  completionRate30: number;
+  completionRate90: number;
+}
+
+export function completionsByDay(completions: CompletionRecord[]): Map<string, CompletionRecord[]> {
+  const byDay = new Map<string, CompletionRecord[]>();
+  for (const completion of completions) {
+    const key = dayKey(completion.completedAt);
+    byDay.set(key, [...(byDay.get(key) ?? []), completion]);
+  }
+  return byDay;
+}
+
+/** Measurable habits meet a day by the logged amount, counted habits by their repetitions. */
+function metPeriods(habit: Habit, completions: CompletionRecord[]): Set<string> {
+  const period = targetPeriodOf(habit);
+  const measured = isQuantityHabit(habit);
+  const target = measured ? habit.quantity.dailyTarget : Math.max(1, habit.targetRepetitionsPerDay);
+  const counts = new Map<string, number>();
+  for (const completion of completions) {
+    if (completion.habitId !== habit.id) {
+      continue;
+    }
+    const key = periodKey(period, completion.completedAt);
+    counts.set(key, (counts.get(key) ?? 0) + (measured ? (completion.quantity ?? 0) : 1));
+  }
+  return new Set([...counts.entries()].filter(([, count]) => count >= target).map(([key]) => key));
+}
+
+function previousPeriodStart(period: TargetPeriod, start: Date): Date {
+  return periodStart(period, addDays(start, -1));
+}
+
+/** Share of the periods overlapping the last `days` days (bounded by the habit's age) whose target was met. */
+function completionRate(habit: Habit, met: Set<string>, days: number, now: Date): number {
+  const period = targetPeriodOf(habit);
+  const today = startOfDay(now);
+  const trackedDays = daysBetween(new Date(habit.createdAt), today) + 1;
+  const window = Math.max(1, Math.min(days, trackedDays));
+  const first = periodStart(period, addDays(today, -(window - 1)));
+
+  let hits = 0;
+  let total = 0;
+  for (let cursor = periodStart(period, today); cursor >= first; cursor = previousPeriodStart(period, cursor)) {
+    total += 1;
+    if (met.has(dayKey(cursor))) {
+      hits += 1;
+    }
+  }
+  return hits / total;
+}
+
+/**
+ * A day (or for weekly and monthly targets, a week or month) counts toward a streak when the habit's
+ * repetition target was met in it. The current period only extends the streak once met; until then the
+ * streak runs through the previous one.
+ */
+export function computeHabitStreaks(habit: Habit, completions: CompletionRecord[], now = new Date()): HabitStreakStats {
+  const period = targetPeriodOf(habit);
+  const met = metPeriods(habit, completions);
+  const current = periodStart(period, now);
+
+  let cursor = met.has(dayKey(current)) ? current : previousPeriodStart(period, current);
+  let currentStreak = 0;
+  while (met.has(dayKey(cursor))) {
+    currentStreak += 1;
+    cursor = previousPeriodStart(period, cursor);
+  }
+
+  let longestStreak = 0;
+  for (const key of met) {
+    const start = parseDayKey(key);
+    if (met.has(dayKey(previousPeriodStart(period, start)))) {
+      continue;
+    }
+
+    let length = 0;
+    let runner = start;
+    while (met.has(dayKey(runner))) {
+      length += 1;
+      runner = periodEnd(period, runner);
+    }
+    longestStreak = Math.max(longestStreak, length);
+  }
+
+  return {
+    period,
+    currentStreak,
+    longestStreak,
+    completionRate7: completionRate(habit, met, 7, now),
+    completionRate30: completionRate(habit, met, 30, now),
+    completionRate90: completionRate(habit, met, 90, now),
+  };
+}
@@ -1,34 +1,421 @@
 import { LocalStorage } from "@raycast/api";
-import { CompletionRecord, Habit, HabitDraft, PostponeRecord, TimerSession } from "./types";
-import { secondsBetween } from "./time";
+import {
+  CompletionRecord,
+  DailyScoreSnapshot,
+  Habit,
+  HabitDraft,
+  HeldReminder,
+  PostponeRecord,
+  RayminderDataSet,
+  SlipRecord,
+  StorageIssue,
+  TimerSession,
+  UndoChange,
+  UndoEntry,
+} from "./types";
+import {
+  currentSlot,
+  followingSlot,
+  isTargetMet,
+  nextPeriodStart,
+  nextDueAfterCompletion,
+  rescheduleModeOf,
+} from "./cadence";
+import { isChecklistComplete } from "./checklist";
+import { uid } from "./id";
+import { periodEnd, targetPeriodOf } from "./period";
+import { formatQuantity } from "./quantity";
+import { activeTimerSeconds, isTimerPaused, nextOccurrence } from "./time";
 
 const HABITS_KEY = "rayminder_habits_v1";
 const SESSIONS_KEY = "rayminder_sessions_v1";
 const COMPLETIONS_KEY = "rayminder_completions_v1";
 const POSTPONES_KEY = "rayminder_postpones_v1";
+const HELD_REMINDERS_KEY = "rayminder_held_reminders_v1";
+const SCORES_KEY = "rayminder_scores_v1";
+const SLIPS_KEY = "rayminder_slips_v1";
+const SCHEMA_VERSION_KEY = "rayminder_schema_version";
+const STORAGE_ISSUES_KEY = "rayminder_storage_issues_v1";
+const QUARANTINE_PREFIX = "rayminder_quarantine_";
+const UNDO_KEY = "rayminder_undo_v1";
+const UNDO_LIMIT = 20;
+const LOCK_KEY = "rayminder_lock";
+const LOCK_TTL_MS = 10_000;
+const LOCK_SETTLE_MS = 30;
+const LOCK_TIMEOUT_MS = 15_000;
 
-function uid(): string {
-  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+function hasCalendarSchedule(habit: Pick<Habit, "schedule">): boolean {
+  return Boolean(habit.schedule && habit.schedule.kind !== "interval");
 }
 
-async function readCollection<T>(key: string): Promise<T[]> {
-  const raw = await LocalStorage.getItem<string>(key);
-  if (!raw) {
-    return [];
+/** Tasks with a deadline are due at the deadline; everything else is due at its next occurrence. */
+function initialDueAt(habit: Pick<Habit, "type" | "deadline" | "schedule" | "intervalMinutes">): string {
+  if (habit.type === "task" && habit.deadline) {
+    return habit.deadline;
   }
+  return nextOccurrence(habit.schedule, habit.intervalMinutes).toISOString();
+}
 
+function sameSchedule(a: Habit["schedule"], b: Habit["schedule"]): boolean {
+  return JSON.stringify(a ?? { kind: "interval" }) === JSON.stringify(b ?? { kind: "interval" });
+}
+
+function sameTarget(a: Habit, b: Habit): boolean {
+  return (
+    a.type === b.type &&
+    a.targetRepetitionsPerDay === b.targetRepetitionsPerDay &&
+    targetPeriodOf(a) === targetPeriodOf(b) &&
+    a.quantity?.dailyTarget === b.quantity?.dailyTarget
+  );
+}
+
+function parseIssues(raw: string | undefined): StorageIssue[] {
   try {
-    const data = JSON.parse(raw) as T[];
+    const data = raw ? (JSON.parse(raw) as StorageIssue[]) : [];
     return Array.isArray(data) ? data : [];
   } catch {
     return [];
   }
 }
 
-async function writeCollection<T>(key: string, data: T[]): Promise<void> {
+/**
+ * Moves an unreadable payload aside instead of letting the next write overwrite it,
+ * and records an issue so the dashboard can tell the user. Callers must hold the storage lock.
+ */
+async function quarantinePayload(key: string, raw: string, reason: string): Promise<void> {
+  const issue: StorageIssue = {
+    id: uid(),
+    key,
+    quarantineKey: `${QUARANTINE_PREFIX}${key}_${Date.now()}`,
+    reason,
+    detectedAt: new Date().toISOString(),
+    acknowledged: false,
+  };
+
+  await LocalStorage.setItem(issue.quarantineKey, raw);
+  await LocalStorage.removeItem(key);
+  const issues = parseIssues(await LocalStorage.getItem<string>(STORAGE_ISSUES_KEY));
+  await LocalStorage.setItem(STORAGE_ISSUES_KEY, JSON.stringify([...issues, issue]));
+}
+
+/** Parses a stored collection, or explains why the payload is unreadable. */
+function parseCollection<T>(raw: string | undefined): { data: T[] } | { problem: string } {
+  if (!raw) {
+    return { data: [] };
+  }
+
+  let data: unknown;
+  try {
+    data = JSON.parse(raw);
+  } catch (error) {
+    return { problem: error instanceof Error ? error.message : "Invalid JSON" };
+  }
+  return Array.isArray(data) ? { data: data as T[] } : { problem: "Expected a list" };
+}
+
+/** Reads a collection, quarantining an unreadable payload. Callers must hold the storage lock. */
+async function loadCollection<T>(key: string): Promise<T[]> {
+  const raw = await LocalStorage.getItem<string>(key);
+  const parsed = parseCollection<T>(raw);
+  if ("problem" in parsed) {
+    await quarantinePayload(key, raw ?? "", parsed.problem);
+    return [];
+  }
+  return parsed.data;
+}
+
+async function storeCollection<T>(key: string, data: T[]): Promise<void> {
   await LocalStorage.setItem(key, JSON.stringify(data));
 }
 
+interface Migration {
+  version: number;
+  description: string;
+  /** Upgrades a data set written at `version - 1`. Pure, so imported backups take the same steps. */
+  migrate: (data: RayminderDataSet) => RayminderDataSet;
+}
+
+const DATA_SET_KEYS: Record<keyof RayminderDataSet, string> = {
+  habits: HABITS_KEY,
+  sessions: SESSIONS_KEY,
+  completions: COMPLETIONS_KEY,
+  postpones: POSTPONES_KEY,
+  scores: SCORES_KEY,
+  slips: SLIPS_KEY,
+};
+
+/**
+ * Ordered upgrade steps. Each step moves data from `version - 1` to `version` and only touches the
+ * collections it returns as new arrays. Data written before versioning existed is treated as version 1.
+ */
+const MIGRATIONS: Migration[] = [
+  {
+    version: 2,
+    description: "Normalize habit and completion fields",
+    migrate: (data) => ({
+      ...data,
+      habits: data.habits.map((habit) => ({
+        ...habit,
+        archived: Boolean(habit.archived),
+        targetRepetitionsPerDay: Math.max(1, habit.targetRepetitionsPerDay || 1),
+        schedule: habit.schedule?.kind === "interval" ? undefined : habit.schedule,
+      })),
+      completions: data.completions.map((completion) => ({
+        ...completion,
+        durationSeconds: Math.max(0, Math.floor(completion.durationSeconds || 0)),
+        source: completion.source ?? "manual",
+      })),
+    }),
+  },
+];
+
+export const CURRENT_SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+/** Upgrades data written at schema `fromVersion`, e.g. from a backup, to the current schema. */
+export function migrateDataSet(data: RayminderDataSet, fromVersion: number): RayminderDataSet {
+  return MIGRATIONS.filter((migration) => migration.version > fromVersion).reduce(
+    (current, migration) => migration.migrate(current),
+    data,
+  );
+}
+
+let schemaReady: Promise<void> | undefined;
+
+async function storedSchemaVersion(): Promise<number> {
+  const stored = await LocalStorage.getItem<number>(SCHEMA_VERSION_KEY);
+  const version = typeof stored === "number" ? stored : 1;
+  if (version > CURRENT_SCHEMA_VERSION) {
+    throw new Error("Rayminder data was written by a newer version of the extension");
+  }
+  return version;
+}
+
+async function migrateSchema(): Promise<void> {
+  if ((await storedSchemaVersion()) === CURRENT_SCHEMA_VERSION) {
+    return;
+  }
+
+  const owner = uid();
+  await acquireLock(owner);
+  try {
+    // Another command may have migrated while we waited for the lock.
+    let version = await storedSchemaVersion();
+    for (const migration of MIGRATIONS) {
+      if (migration.version <= version) {
+        continue;
+      }
+
+      const data: RayminderDataSet = {
+        habits: await loadCollection<Habit>(HABITS_KEY),
+        sessions: await loadCollection<TimerSession>(SESSIONS_KEY),
+        completions: await loadCollection<CompletionRecord>(COMPLETIONS_KEY),
+        postpones: await loadCollection<PostponeRecord>(POSTPONES_KEY),
+        scores: await loadCollection<DailyScoreSnapshot>(SCORES_KEY),
+        slips: await loadCollection<SlipRecord>(SLIPS_KEY),
+      };
+      const next = migration.migrate(data);
+      for (const field of Object.keys(DATA_SET_KEYS) as (keyof RayminderDataSet)[]) {
+        if (next[field] !== data[field]) {
+          await storeCollection<unknown>(DATA_SET_KEYS[field], next[field]);
+        }
+      }
+      version = migration.version;
+      await LocalStorage.setItem(SCHEMA_VERSION_KEY, version);
+    }
+  } finally {
+    await releaseLock(owner);
+  }
+}
+
+function ensureSchema(): Promise<void> {
+  if (!schemaReady) {
+    schemaReady = migrateSchema().catch((error) => {
+      schemaReady = undefined;
+      throw error;
+    });
+  }
+  return schemaReady;
+}
+
+/** Lock-free read; only an unreadable payload takes the lock, so it is quarantined exactly once. */
+async function readCollection<T>(key: string): Promise<T[]> {
+  await ensureSchema();
+  const parsed = parseCollection<T>(await LocalStorage.getItem<string>(key));
+  return "problem" in parsed ? transact((tx) => tx.read<T>(key)) : parsed.data;
+}
+
+interface StorageLock {
+  owner: string;
+  expiresAt: number;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+async function readLock(): Promise<StorageLock | undefined> {
+  const raw = await LocalStorage.getItem<string>(LOCK_KEY);
+  try {
+    return raw ? (JSON.parse(raw) as StorageLock) : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * LocalStorage has no atomic compare-and-swap, so the lock is claimed by writing an owner token,
+ * waiting for a competing claim to land, and reading the token back. Expired locks (e.g. from a
+ * command that was killed mid-write) are taken over.
+ */
+async function acquireLock(owner: string): Promise<void> {
+  const deadline = Date.now() + LOCK_TIMEOUT_MS;
+
+  for (;;) {
+    const current = await readLock();
+    if (!current || current.expiresAt < Date.now()) {
+      const claim: StorageLock = { owner, expiresAt: Date.now() + LOCK_TTL_MS };
+      await LocalStorage.setItem(LOCK_KEY, JSON.stringify(claim));
+      await sleep(LOCK_SETTLE_MS);
+      if ((await readLock())?.owner === owner) {
+        return;
+      }
+    }
+
+    if (Date.now() > deadline) {
+      throw new Error("Rayminder storage is busy, please try again");
+    }
+    await sleep(LOCK_SETTLE_MS + Math.floor(Math.random() * LOCK_SETTLE_MS));
+  }
+}
+
+async function releaseLock(owner: string): Promise<void> {
+  if ((await readLock())?.owner === owner) {
+    await LocalStorage.removeItem(LOCK_KEY);
+  }
+}
+
+interface StorageTransaction {
+  read<T>(key: string): Promise<T[]>;
+  write<T>(key: string, data: T[]): void;
+  /** Marks the transaction as undoable; its previous state is kept in the undo journal under `label`. */
+  journal(label: string): void;
+}
+
+type IdentifiedRecord = { id: string };
+
+function diffForUndo(key: string, before: IdentifiedRecord[], after: IdentifiedRecord[]): UndoChange | undefined {
+  const afterById = new Map(after.map((entry) => [entry.id, JSON.stringify(entry)]));
+  const beforeById = new Map(before.map((entry) => [entry.id, JSON.stringify(entry)]));
+  const previous = before.filter((entry) => afterById.get(entry.id) !== JSON.stringify(entry));
+  const addedIds = after.filter((entry) => !beforeById.has(entry.id)).map((entry) => entry.id);
+  const written = after.filter((entry) => beforeById.get(entry.id) !== JSON.stringify(entry));
+
+  return previous.length > 0 || addedIds.length > 0 ? { key, previous, addedIds, written } : undefined;
+}
+
+/** Reminder bookkeeping changes on its own schedule and does not block an undo. */
+function undoFingerprint(record: IdentifiedRecord | undefined): string | undefined {
+  if (!record) {
+    return undefined;
+  }
+  const { lastReminderAt, reminderCount, ...rest } = record as IdentifiedRecord & Partial<Habit>;
+  return JSON.stringify(rest);
+}
+
+/** Whether every record `change` touched still looks the way the change left it. */
+function isUntouchedSince(change: UndoChange, current: IdentifiedRecord[]): boolean {
+  if (!change.written) {
+    return false;
+  }
+  const currentById = new Map(current.map((record) => [record.id, record]));
+  const writtenById = new Map(change.written.map((record) => [record.id, record]));
+  const ids = [...change.previous.map((record) => record.id), ...change.addedIds];
+  return ids.every((id) => undoFingerprint(currentById.get(id)) === undoFingerprint(writtenById.get(id)));
+}
+
+/** Outcome of an undoable mutation; `undoId` is its undo journal entry, unset when nothing changed. */
+export interface Journaled<T> {
+  result: T;
+  undoId?: string;
+}
+
+/**
+ * Runs a read-modify-write under the storage lock. Reads inside `work` see the data as of lock
+ * acquisition plus the transaction's own writes; writes are buffered and flushed before the lock
+ * is released, so concurrent commands never interleave their updates.
+ */
+async function transact<T>(work: (tx: StorageTransaction) => Promise<T>): Promise<T> {
+  return (await transactJournaled(work)).result;
+}
+
+/** Like `transact`, but also reports the undo journal entry the transaction created. */
+async function transactJournaled<T>(work: (tx: StorageTransaction) => Promise<T>): Promise<Journaled<T>> {
+  await ensureSchema();
+  const owner = uid();
+  await acquireLock(owner);
+
+  try {
+    const cache = new Map<string, unknown[]>();
+    const originals = new Map<string, unknown[]>();
+    const dirty = new Set<string>();
+    let journalLabel: string | undefined;
+
+    const tx: StorageTransaction = {
+      async read<R>(key: string): Promise<R[]> {
+        if (!cache.has(key)) {
+          const loaded = await loadCollection<R>(key);
+          cache.set(key, loaded);
+          originals.set(key, loaded);
+        }
+        return [...(cache.get(key) as R[])];
+      },
+      write<R>(key: string, data: R[]): void {
+        cache.set(key, data);
+        dirty.add(key);
+      },
+      journal(label: string): void {
+        journalLabel = label;
+      },
+    };
+
+    const result = await work(tx);
+    let undoId: string | undefined;
+
+    if (journalLabel) {
+      const changes = [...dirty]
+        .filter((key) => originals.has(key))
+        .map((key) => diffForUndo(key, originals.get(key) as IdentifiedRecord[], cache.get(key) as IdentifiedRecord[]))
+        .filter((change): change is UndoChange => Boolean(change));
+
+      if (changes.length > 0) {
+        const entry: UndoEntry = { id: uid(), label: journalLabel, createdAt: new Date().toISOString(), changes };
+        const journal = await tx.read<UndoEntry>(UNDO_KEY);
+        tx.write(UNDO_KEY, [...journal, entry].slice(-UNDO_LIMIT));
+        undoId = entry.id;
+      }
+    }
+
+    for (const key of dirty) {
+      await storeCollection(key, cache.get(key) ?? []);
+    }
+    return { result, undoId };
+  } finally {
+    await releaseLock(owner);
+  }
+}
+
+export async function listStorageIssues(): Promise<StorageIssue[]> {
+  const issues = parseIssues(await LocalStorage.getItem<string>(STORAGE_ISSUES_KEY));
+  return issues.filter((issue) => !issue.acknowledged);
+}
+
+export async function acknowledgeStorageIssues(): Promise<void> {
+  await transact(async (tx) => {
+    const issues = await tx.read<StorageIssue>(STORAGE_ISSUES_KEY);
+    tx.write(STORAGE_ISSUES_KEY, issues.map((issue) => ({ ...issue, acknowledged: true })));
+  });
+}
+
 export async function listHabits(includeArchived = false): Promise<Habit[]> {
   const habits = await readCollection<Habit>(HABITS_KEY);
   const filtered = includeArchived ? habits : habits.filter((habit) => !habit.archived);
@@ -41,52 +428,170 @@ export async function getHabit(habitId: string): Promise<Habit | undefined> {
 }
 
 export async function upsertHabit(draft: HabitDraft, existingId?: string): Promise<Habit> {
-  const habits = await readCollection<Habit>(HABITS_KEY);
-  const now = new Date().toISOString();
+  return transact(async (tx) => {
+    const habits = await tx.read<Habit>(HABITS_KEY);
+    const now = new Date().toISOString();
+
+    if (existingId) {
+      const index = habits.findIndex((habit) => habit.id === existingId);
+      if (index < 0) {
+        throw new Error("Habit not found");
+      }
 
-  if (existingId) {
-    const index = habits.findIndex((habit) => habit.id === existingId);
+      const previous = habits[index];
+      const scheduleChanged = !sameSchedule(previous.schedule, draft.schedule);
+      const deadlineChanged = previous.type !== draft.type || previous.deadline !== draft.deadline;
+      const rescheduled = scheduleChanged || (draft.type === "task" && deadlineChanged);
+      let next: Habit = {
+        ...previous,
+        ...draft,
+        schedule: draft.schedule,
+        expectedDurationMinutes: draft.expectedDurationMinutes,
+        notes: draft.notes,
+        ignoreQuietHours: draft.ignoreQuietHours,
+        category: draft.category,
+        tags: draft.tags,
+        priority: draft.priority,
+        deadline: draft.type === "task" ? draft.deadline : undefined,
+        checklist: draft.checklist,
+        checklistAutoComplete: draft.checklistAutoComplete,
+        scoreWeight: draft.scoreWeight,
+        reminderPolicy: draft.reminderPolicy,
+        rescheduleMode: draft.type === "habit" ? draft.rescheduleMode : undefined,
+        targetPeriod: draft.type === "habit" ? draft.targetPeriod : undefined,
+        quantity: draft.type === "habit" ? draft.quantity : undefined,
+        dueAt: rescheduled ? initialDueAt(draft) : previous.dueAt,
+        scheduledAt: rescheduled ? undefined : previous.scheduledAt,
+      };
+      // A new target can end or start the rest a met target parks the habit in.
+      if (!rescheduled && !sameTarget(previous, next)) {
+        const completions = await tx.read<CompletionRecord>(COMPLETIONS_KEY);
+        const at = new Date();
+        const wasMet = isTargetMet(previous, completions, at);
+        next = reconcileTarget(next, wasMet, completions, next.lastCompletedAt, at) ?? next;
+      }
+      habits[index] = next;
+      tx.write(HABITS_KEY, habits);
+      return next;
+    }
+
+    const habit: Habit = {
+      id: uid(),
+      name: draft.name,
+      type: draft.type,
+      intervalMinutes: draft.intervalMinutes,
+      schedule: draft.schedule,
+      targetRepetitionsPerDay: draft.targetRepetitionsPerDay,
+      expectedDurationMinutes: draft.expectedDurationMinutes,
+      notes: draft.notes,
+      ignoreQuietHours: draft.ignoreQuietHours,
+      category: draft.category,
+      tags: draft.tags,
+      priority: draft.priority,
+      deadline: draft.type === "task" ? draft.deadline : undefined,
+      checklist: draft.checklist,
+      checklistAutoComplete: draft.checklistAutoComplete,
+      scoreWeight: draft.scoreWeight,
+      reminderPolicy: draft.reminderPolicy,
+      rescheduleMode: draft.type === "habit" ? draft.rescheduleMode : undefined,
+      targetPeriod: draft.type === "habit" ? draft.targetPeriod : undefined,
+      quantity: draft.type === "habit" ? draft.quantity : undefined,
+      createdAt: now,
+      dueAt: initialDueAt(draft),
+      archived: false,
+    };
+
+    habits.push(habit);
+    tx.write(HABITS_KEY, habits);
+    return habit;
+  });
+}
+
+export async function archiveHabit(habitId: string): Promise<Journaled<void>> {
+  return transactJournaled(async (tx) => {
+    const habits = await tx.read<Habit>(HABITS_KEY);
+    const sessions = await tx.read<TimerSession>(SESSIONS_KEY);
+    const target = habits.find((habit) => habit.id === habitId);
+    if (target) {
+      tx.journal(`Archive ${target.name}`);
+    }
+    const archivedAt = new Date().toISOString();
+    const updated = habits.map((habit) => (habit.id === habitId ? { ...habit, archived: true, archivedAt } : habit));
+    const activeSessions = sessions.filter((session) => session.habitId !== habitId);
+    tx.write(HABITS_KEY, updated);
+    tx.write(SESSIONS_KEY, activeSessions);
+  });
+}
+
+export async function restoreHabit(habitId: string): Promise<Journaled<Habit>> {
+  return transactJournaled(async (tx) => {
+    const habits = await tx.read<Habit>(HABITS_KEY);
+    const index = habits.findIndex((habit) => habit.id === habitId);
     if (index < 0) {
       throw new Error("Habit not found");
     }
 
     const previous = habits[index];
-    const next: Habit = {
+    tx.journal(`Restore ${previous.name}`);
+    const restored: Habit = {
       ...previous,
-      ...draft,
-      expectedDurationMinutes: draft.expectedDurationMinutes,
-      notes: draft.notes,
+      archived: false,
+      archivedAt: undefined,
+      lastReminderAt: undefined,
+      reminderCount: undefined,
+      dueAt: initialDueAt(previous),
+      scheduledAt: undefined,
     };
-    habits[index] = next;
-    await writeCollection(HABITS_KEY, habits);
-    return next;
-  }
+    habits[index] = restored;
+    tx.write(HABITS_KEY, habits);
+    return restored;
+  });
+}
 
-  const habit: Habit = {
-    id: uid(),
-    name: draft.name,
-    type: draft.type,
-    intervalMinutes: draft.intervalMinutes,
-    targetRepetitionsPerDay: draft.targetRepetitionsPerDay,
-    expectedDurationMinutes: draft.expectedDurationMinutes,
-    notes: draft.notes,
-    createdAt: now,
-    dueAt: new Date(Date.now() + draft.intervalMinutes * 60_000).toISOString(),
-    archived: false,
-  };
+async function removeHabitsWithRecords(tx: StorageTransaction, habitIds: Set<string>): Promise<void> {
+  const removedIds = new Set(habitIds);
+  const keep = <T extends { id: string; habitId: string }>(entries: T[]) =>
+    entries.filter((entry) => {
+      if (habitIds.has(entry.habitId)) {
+        removedIds.add(entry.id);
+        return false;
+      }
+      return true;
+    });
 
-  habits.push(habit);
-  await writeCollection(HABITS_KEY, habits);
-  return habit;
+  tx.write(HABITS_KEY, (await tx.read<Habit>(HABITS_KEY)).filter((habit) => !habitIds.has(habit.id)));
+  tx.write(SESSIONS_KEY, keep(await tx.read<TimerSession>(SESSIONS_KEY)));
+  tx.write(COMPLETIONS_KEY, keep(await tx.read<CompletionRecord>(COMPLETIONS_KEY)));
+  tx.write(POSTPONES_KEY, keep(await tx.read<PostponeRecord>(POSTPONES_KEY)));
+  tx.write(SLIPS_KEY, keep(await tx.read<SlipRecord>(SLIPS_KEY)));
+
+  // Undoing an older change must not bring any of the deleted records back.
+  const touchesRemoved = (entry: UndoEntry) =>
+    entry.changes.some(
+      (change) =>
+        change.addedIds.some((id) => removedIds.has(id)) || change.previous.some((record) => removedIds.has(record.id)),
+    );
+  tx.write(UNDO_KEY, (await tx.read<UndoEntry>(UNDO_KEY)).filter((entry) => !touchesRemoved(entry)));
 }
 
-export async function archiveHabit(habitId: string): Promise<void> {
-  const habits = await readCollection<Habit>(HABITS_KEY);
-  const sessions = await readCollection<TimerSession>(SESSIONS_KEY);
-  const updated = habits.map((habit) => (habit.id === habitId ? { ...habit, archived: true } : habit));
-  const activeSessions = sessions.filter((session) => session.habitId !== habitId);
-  await writeCollection(HABITS_KEY, updated);
-  await writeCollection(SESSIONS_KEY, activeSessions);
+/** Deletes the habit together with its completions, postpones, slips and timers. This cannot be undone. */
+export async function deleteHabitPermanently(habitId: string): Promise<void> {
+  await transact((tx) => removeHabitsWithRecords(tx, new Set([habitId])));
+}
+
+/** Permanently deletes every item archived before `cutoff`; returns how many were removed. */
+export async function purgeArchivedBefore(cutoff: Date): Promise<number> {
+  return transact(async (tx) => {
+    const habits = await tx.read<Habit>(HABITS_KEY);
+    const expired = habits.filter((habit) => habit.archived && new Date(archivedSince(habit)).getTime() < cutoff.getTime());
+    await removeHabitsWithRecords(tx, new Set(expired.map((habit) => habit.id)));
+    return expired.length;
+  });
+}
+
+/** Items archived before `archivedAt` was tracked fall back to their last activity. */
+export function archivedSince(habit: Habit): string {
+  return habit.archivedAt ?? habit.lastCompletedAt ?? habit.createdAt;
 }
 
 export async function listSessions(): Promise<TimerSession[]> {
@@ -101,48 +606,109 @@ export async function listPostpones(): Promise<PostponeRecord[]> {
   return readCollection<PostponeRecord>(POSTPONES_KEY);
 }
 
+export async function listSlips(): Promise<SlipRecord[]> {
+  return readCollection<SlipRecord>(SLIPS_KEY);
+}
+
+export async function listScoreSnapshots(): Promise<DailyScoreSnapshot[]> {
+  const snapshots = await readCollection<DailyScoreSnapshot>(SCORES_KEY);
+  return snapshots.sort((a, b) => a.day.localeCompare(b.day));
+}
+
+export async function saveScoreSnapshot(snapshot: DailyScoreSnapshot): Promise<void> {
+  await transact(async (tx) => {
+    const snapshots = await tx.read<DailyScoreSnapshot>(SCORES_KEY);
+    const remaining = snapshots.filter((entry) => entry.day !== snapshot.day);
+    tx.write(SCORES_KEY, [...remaining, snapshot]);
+  });
+}
+
 export async function startHabitTimer(habitId: string): Promise<TimerSession> {
-  const sessions = await readCollection<TimerSession>(SESSIONS_KEY);
-  const existing = sessions.find((session) => session.habitId === habitId);
-  if (existing) {
-    return existing;
-  }
+  return transact(async (tx) => {
+    const sessions = await tx.read<TimerSession>(SESSIONS_KEY);
+    const existing = sessions.find((session) => session.habitId === habitId);
+    if (existing) {
+      return existing;
+    }
 
-  const session: TimerSession = {
-    id: uid(),
-    habitId,
-    startedAt: new Date().toISOString(),
-  };
+    const session: TimerSession = {
+      id: uid(),
+      habitId,
+      startedAt: new Date().toISOString(),
+    };
 
-  sessions.push(session);
-  await writeCollection(SESSIONS_KEY, sessions);
-  return session;
+    sessions.push(session);
+    tx.write(SESSIONS_KEY, sessions);
+    return session;
+  });
 }
 
-export async function stopHabitTimer(habitId: string): Promise<CompletionRecord> {
-  const sessions = await readCollection<TimerSession>(SESSIONS_KEY);
-  const session = sessions.find((entry) => entry.habitId === habitId);
+export async function stopHabitTimer(habitId: string): Promise<Journaled<CompletionRecord>> {
+  return transactJournaled(async (tx) => {
+    const sessions = await tx.read<TimerSession>(SESSIONS_KEY);
+    const session = sessions.find((entry) => entry.habitId === habitId);
 
-  if (!session) {
-    throw new Error("No active timer for this habit");
-  }
+    if (!session) {
+      throw new Error("No active timer for this habit");
+    }
+
+    return recordCompletion(tx, habitId, {
+      durationSeconds: activeTimerSeconds(session, new Date()),
+      source: "timer",
+    });
+  });
+}
 
-  const remaining = sessions.filter((entry) => entry.id !== session.id);
-  await writeCollection(SESSIONS_KEY, remaining);
+async function updateSession(habitId: string, update: (session: TimerSession, now: string) => TimerSession): Promise<TimerSession> {
+  return transact(async (tx) => {
+    const sessions = await tx.read<TimerSession>(SESSIONS_KEY);
+    const index = sessions.findIndex((entry) => entry.habitId === habitId);
+    if (index < 0) {
+      throw new Error("No active timer for this habit");
+    }
 
-  return completeHabit(habitId, {
-    durationSeconds: secondsBetween(session.startedAt, new Date()),
-    source: "timer",
+    sessions[index] = update(sessions[index], new Date().toISOString());
+    tx.write(SESSIONS_KEY, sessions);
+    return sessions[index];
   });
 }
 
-export async function completeHabit(
+export async function pauseHabitTimer(habitId: string): Promise<TimerSession> {
+  return updateSession(habitId, (session, now) =>
+    isTimerPaused(session) ? session : { ...session, pauses: [...(session.pauses ?? []), { pausedAt: now }] },
+  );
+}
+
+export async function resumeHabitTimer(habitId: string): Promise<TimerSession> {
+  return updateSession(habitId, (session, now) => {
+    if (!isTimerPaused(session)) {
+      return session;
+    }
+    const pauses = [...(session.pauses ?? [])];
+    pauses[pauses.length - 1] = { ...pauses[pauses.length - 1], resumedAt: now };
+    return { ...session, pauses };
+  });
+}
+
+/** Drops the running timer without recording a completion. */
+export async function discardHabitTimer(habitId: string): Promise<Journaled<void>> {
+  return transactJournaled(async (tx) => {
+    const sessions = await tx.read<TimerSession>(SESSIONS_KEY);
+    const habits = await tx.read<Habit>(HABITS_KEY);
+    const habit = habits.find((entry) => entry.id === habitId);
+    tx.journal(`Discard timer${habit ? ` for ${habit.name}` : ""}`);
+    tx.write(SESSIONS_KEY, sessions.filter((entry) => entry.habitId !== habitId));
+  });
+}
+
+async function recordCompletion(
+  tx: StorageTransaction,
   habitId: string,
-  options: { durationSeconds?: number; source?: "manual" | "timer" } = {},
+  options: { durationSeconds?: number; source?: "manual" | "timer"; quantity?: number },
 ): Promise<CompletionRecord> {
-  const habits = await readCollection<Habit>(HABITS_KEY);
-  const sessions = await readCollection<TimerSession>(SESSIONS_KEY);
-  const completions = await readCollection<CompletionRecord>(COMPLETIONS_KEY);
+  const habits = await tx.read<Habit>(HABITS_KEY);
+  const sessions = await tx.read<TimerSession>(SESSIONS_KEY);
+  const completions = await tx.read<CompletionRecord>(COMPLETIONS_KEY);
 
   const index = habits.findIndex((habit) => habit.id === habitId);
   if (index < 0) {
@@ -150,6 +716,7 @@ export async function completeHabit(
   }
 
   const habit = habits[index];
+  tx.journal(`Complete ${habit.name}`);
   const now = new Date();
   const completion: CompletionRecord = {
     id: uid(),
@@ -157,38 +724,403 @@ export async function completeHabit(
     completedAt: now.toISOString(),
     durationSeconds: Math.max(0, Math.floor(options.durationSeconds ?? 0)),
     source: options.source ?? "manual",
+    quantity: options.quantity !== undefined && options.quantity > 0 ? options.quantity : undefined,
   };
 
   completions.push(completion);
 
   const isTask = habit.type === "task";
+  // Once the target of the current day, week or month is met the habit rests until the next one.
+  const nextDue = isTargetMet(habit, completions, now)
+    ? nextPeriodStart(habit, now)
+    : nextDueAfterCompletion(habit, now);
   habits[index] = isTask
     ? {
         ...habit,
         archived: true,
+        archivedAt: completion.completedAt,
         lastCompletedAt: completion.completedAt,
         lastReminderAt: undefined,
+        reminderCount: undefined,
       }
     : {
         ...habit,
         lastCompletedAt: completion.completedAt,
         lastReminderAt: undefined,
-        dueAt: new Date(now.getTime() + habit.intervalMinutes * 60_000).toISOString(),
+        reminderCount: undefined,
+        dueAt: nextDue.toISOString(),
+        scheduledAt: undefined,
+        checklist: habit.checklist?.map((item) => ({ ...item, done: false })),
       };
 
   const remainingSessions = sessions.filter((session) => session.habitId !== habitId);
 
-  await writeCollection(COMPLETIONS_KEY, completions);
-  await writeCollection(HABITS_KEY, habits);
-  await writeCollection(SESSIONS_KEY, remainingSessions);
+  tx.write(COMPLETIONS_KEY, completions);
+  tx.write(HABITS_KEY, habits);
+  tx.write(SESSIONS_KEY, remainingSessions);
 
   return completion;
 }
 
-export async function postponeHabit(habitId: string, minutes: number): Promise<Habit> {
+export async function completeHabit(
+  habitId: string,
+  options: { durationSeconds?: number; source?: "manual" | "timer"; quantity?: number } = {},
+): Promise<Journaled<CompletionRecord>> {
+  return transactJournaled((tx) => recordCompletion(tx, habitId, options));
+}
+
+/** Logs an amount for a measurable habit; it counts as a completion and moves the schedule like one. */
+export async function logQuantity(habitId: string, amount: number): Promise<Journaled<CompletionRecord>> {
+  if (!(amount > 0)) {
+    throw new Error("Amount must be a positive number");
+  }
+
+  return transactJournaled(async (tx) => {
+    const completion = await recordCompletion(tx, habitId, { source: "manual", quantity: amount });
+    const habit = (await tx.read<Habit>(HABITS_KEY)).find((entry) => entry.id === habitId);
+    tx.journal(`Log ${formatQuantity(amount, habit?.quantity?.unit ?? "")} for ${habit?.name ?? "habit"}`);
+    return completion;
+  });
+}
+
+/**
+ * Ticks or unticks one checklist entry. When that checks the last open entry of an item with
+ * `checklistAutoComplete`, the item is completed in the same transaction and the completion returned.
+ */
+export async function toggleChecklistItem(
+  habitId: string,
+  itemId: string,
+): Promise<Journaled<{ habit: Habit; completion?: CompletionRecord }>> {
+  return transactJournaled(async (tx) => {
+    const habits = await tx.read<Habit>(HABITS_KEY);
+    const index = habits.findIndex((habit) => habit.id === habitId);
+    if (index < 0) {
+      throw new Error("Habit not found");
+    }
+
+    const habit = habits[index];
+    if (!habit.checklist?.some((item) => item.id === itemId)) {
+      throw new Error("Checklist item not found");
+    }
+
+    const updated: Habit = {
+      ...habit,
+      checklist: habit.checklist.map((item) => (item.id === itemId ? { ...item, done: !item.done } : item)),
+    };
+    habits[index] = updated;
+    tx.write(HABITS_KEY, habits);
+
+    if (updated.checklistAutoComplete && isChecklistComplete(updated)) {
+      const completion = await recordCompletion(tx, habitId, { source: "manual" });
+      return { habit: updated, completion };
+    }
+    return { habit: updated };
+  });
+}
+
+/**
+ * Parks a habit that meets its target until its next period, and brings back one that was parked
+ * (`wasMet`) but no longer meets it before the current period ends. Returns undefined otherwise.
+ */
+function reconcileTarget(
+  habit: Habit,
+  wasMet: boolean,
+  completions: CompletionRecord[],
+  latest: string | undefined,
+  now: Date,
+): Habit | undefined {
+  const met = isTargetMet(habit, completions, now);
+  if (habit.type === "task" || (!met && !wasMet)) {
+    return undefined;
+  }
+
+  let due = nextPeriodStart(habit, now);
+  if (!met) {
+    const next = latest ? nextOccurrence(habit.schedule, habit.intervalMinutes, new Date(latest)) : now;
+    due = next.getTime() < periodEnd(targetPeriodOf(habit), now).getTime() ? next : now;
+  }
+  return {
+    ...habit,
+    lastCompletedAt: latest,
+    lastReminderAt: undefined,
+    reminderCount: undefined,
+    dueAt: due.toISOString(),
+    scheduledAt: undefined,
+  };
+}
+
+/**
+ * Re-derives `lastCompletedAt` (and, for recurring habits, `dueAt`) after the completion history was
+ * edited from `previous` to `completions`, so a backfilled or removed record moves the schedule like a
+ * live completion would. A habit whose target is met by the edited history rests until its next
+ * period; one that no longer meets it is due again within the current period.
+ */
+function syncHabitWithHistory(
+  habit: Habit,
+  previous: CompletionRecord[],
+  completions: CompletionRecord[],
+  now = new Date(),
+): Habit {
+  const latest = completions
+    .filter((entry) => entry.habitId === habit.id)
+    .reduce<string | undefined>((max, entry) => (!max || entry.completedAt > max ? entry.completedAt : max), undefined);
+
+  const reconciled = reconcileTarget(habit, isTargetMet(habit, previous, now), completions, latest, now);
+  if (reconciled) {
+    return reconciled;
+  }
+
+  if (latest === habit.lastCompletedAt) {
+    return habit;
+  }
+
+  // Fixed and catch-up habits follow their grid, which an edited history does not move.
+  if (habit.type === "task" || rescheduleModeOf(habit) !== "from-completion") {
+    return { ...habit, lastCompletedAt: latest };
+  }
+
+  return {
+    ...habit,
+    lastCompletedAt: latest,
+    lastReminderAt: undefined,
+    reminderCount: undefined,
+    dueAt: nextOccurrence(habit.schedule, habit.intervalMinutes, new Date(latest ?? habit.createdAt)).toISOString(),
+    scheduledAt: undefined,
+  };
+}
+
+async function editCompletions(
+  tx: StorageTransaction,
+  habitId: string,
+  edit: (completions: CompletionRecord[]) => CompletionRecord[],
+): Promise<void> {
+  const habits = await tx.read<Habit>(HABITS_KEY);
+  const previous = await tx.read<CompletionRecord>(COMPLETIONS_KEY);
+  const completions = edit(previous);
+  tx.write(COMPLETIONS_KEY, completions);
+  tx.write(
+    HABITS_KEY,
+    habits.map((habit) => (habit.id === habitId ? syncHabitWithHistory(habit, previous, completions) : habit)),
+  );
+}
+
+async function habitName(tx: StorageTransaction, habitId: string): Promise<string> {
+  const habits = await tx.read<Habit>(HABITS_KEY);
+  const habit = habits.find((entry) => entry.id === habitId);
+  if (!habit) {
+    throw new Error("Habit not found");
+  }
+  return habit.name;
+}
+
+export async function logPastCompletion(
+  habitId: string,
+  entry: { completedAt: Date; durationSeconds: number; quantity?: number },
+): Promise<Journaled<CompletionRecord>> {
+  if (entry.completedAt.getTime() > Date.now()) {
+    throw new Error("Completion time cannot be in the future");
+  }
+  if (entry.quantity !== undefined && !(entry.quantity > 0)) {
+    throw new Error("Amount must be a positive number");
+  }
+
+  return transactJournaled(async (tx) => {
+    tx.journal(`Log past completion for ${await habitName(tx, habitId)}`);
+    const completion: CompletionRecord = {
+      id: uid(),
+      habitId,
+      completedAt: entry.completedAt.toISOString(),
+      durationSeconds: Math.max(0, Math.floor(entry.durationSeconds)),
+      source: "manual",
+      quantity: entry.quantity,
+    };
+    await editCompletions(tx, habitId, (completions) => [...completions, completion]);
+    return completion;
+  });
+}
+
+export async function updateCompletion(
+  completionId: string,
+  patch: { completedAt: Date; durationSeconds: number; quantity?: number },
+): Promise<Journaled<void>> {
+  if (patch.completedAt.getTime() > Date.now()) {
+    throw new Error("Completion time cannot be in the future");
+  }
+  if (patch.quantity !== undefined && !(patch.quantity > 0)) {
+    throw new Error("Amount must be a positive number");
+  }
+
+  return transactJournaled(async (tx) => {
+    const existing = (await tx.read<CompletionRecord>(COMPLETIONS_KEY)).find((entry) => entry.id === completionId);
+    if (!existing) {
+      throw new Error("Completion not found");
+    }
+
+    tx.journal(`Edit completion of ${await habitName(tx, existing.habitId)}`);
+    await editCompletions(tx, existing.habitId, (completions) =>
+      completions.map((entry) =>
+        entry.id === completionId
+          ? {
+              ...entry,
+              completedAt: patch.completedAt.toISOString(),
+              durationSeconds: Math.max(0, Math.floor(patch.durationSeconds)),
+              quantity: patch.quantity ?? entry.quantity,
+            }
+          : entry,
+      ),
+    );
+  });
+}
+
+export async function deleteCompletion(completionId: string): Promise<Journaled<void>> {
+  return transactJournaled(async (tx) => {
+    const existing = (await tx.read<CompletionRecord>(COMPLETIONS_KEY)).find((entry) => entry.id === completionId);
+    if (!existing) {
+      throw new Error("Completion not found");
+    }
+
+    tx.journal(`Delete completion of ${await habitName(tx, existing.habitId)}`);
+    await editCompletions(tx, existing.habitId, (completions) => completions.filter((entry) => entry.id !== completionId));
+  });
+}
+
+/**
+ * Re-applies `postpone` to its item after it was edited (or, with an identity `apply`, deleted), starting
+ * from the due time it moved away from. Only the latest postpone of the current occurrence still decides
+ * `dueAt`; older ones, and records from before the previous due time was kept, only feed history and stats.
+ */
+async function movePostponedHabit(
+  tx: StorageTransaction,
+  postpones: PostponeRecord[],
+  postpone: PostponeRecord,
+  apply: (habit: Habit) => Habit,
+): Promise<void> {
+  const habits = await tx.read<Habit>(HABITS_KEY);
+  const habit = habits.find((entry) => entry.id === postpone.habitId);
+  const isLatest = postpones.every(
+    (entry) => entry.habitId !== postpone.habitId || entry.postponedAt <= postpone.postponedAt,
+  );
+  if (
+    !habit ||
+    habit.archived ||
+    !postpone.previousDueAt ||
+    !isLatest ||
+    (habit.lastCompletedAt !== undefined && habit.lastCompletedAt > postpone.postponedAt)
+  ) {
+    return;
+  }
+
+  const moved = apply({ ...habit, dueAt: postpone.previousDueAt, scheduledAt: postpone.previousScheduledAt });
+  tx.write(HABITS_KEY, habits.map((entry) => (entry.id === habit.id ? moved : entry)));
+}
+
+export async function updatePostpone(
+  postponeId: string,
+  patch: { postponedAt: Date; minutes: number },
+): Promise<Journaled<void>> {
+  return transactJournaled(async (tx) => {
+    const postpones = await tx.read<PostponeRecord>(POSTPONES_KEY);
+    const existing = postpones.find((entry) => entry.id === postponeId);
+    if (!existing) {
+      throw new Error("Postpone not found");
+    }
+
+    tx.journal(`Edit postpone of ${await habitName(tx, existing.habitId)}`);
+    const edited: PostponeRecord = {
+      ...existing,
+      postponedAt: patch.postponedAt.toISOString(),
+      minutes: Math.max(1, Math.floor(patch.minutes)),
+    };
+    tx.write(POSTPONES_KEY, postpones.map((entry) => (entry.id === postponeId ? edited : entry)));
+    await movePostponedHabit(tx, postpones, existing, (habit) => postponedHabit(habit, patch.postponedAt, edited.minutes));
+  });
+}
+
+export async function deletePostpone(postponeId: string): Promise<Journaled<void>> {
+  return transactJournaled(async (tx) => {
+    const postpones = await tx.read<PostponeRecord>(POSTPONES_KEY);
+    const existing = postpones.find((entry) => entry.id === postponeId);
+    if (!existing) {
+      throw new Error("Postpone not found");
+    }
+
+    tx.journal(`Delete postpone of ${await habitName(tx, existing.habitId)}`);
+    tx.write(POSTPONES_KEY, postpones.filter((entry) => entry.id !== postponeId));
+    await movePostponedHabit(tx, postpones, existing, (habit) => habit);
+  });
+}
+
+export async function logSlip(
+  habitId: string,
+  entry: { slippedAt?: Date; note?: string } = {},
+): Promise<Journaled<SlipRecord>> {
+  const slippedAt = entry.slippedAt ?? new Date();
+  if (slippedAt.getTime() > Date.now()) {
+    throw new Error("Slip time cannot be in the future");
+  }
+
+  return transactJournaled(async (tx) => {
+    tx.journal(`Log slip of ${await habitName(tx, habitId)}`);
+    const slips = await tx.read<SlipRecord>(SLIPS_KEY);
+    const slip: SlipRecord = {
+      id: uid(),
+      habitId,
+      slippedAt: slippedAt.toISOString(),
+      note: entry.note?.trim() || undefined,
+    };
+    slips.push(slip);
+    tx.write(SLIPS_KEY, slips);
+    return slip;
+  });
+}
+
+export async function deleteSlip(slipId: string): Promise<Journaled<void>> {
+  return transactJournaled(async (tx) => {
+    const slips = await tx.read<SlipRecord>(SLIPS_KEY);
+    const existing = slips.find((entry) => entry.id === slipId);
+    if (!existing) {
+      throw new Error("Slip not found");
+    }
+
+    tx.journal(`Delete slip of ${await habitName(tx, existing.habitId)}`);
+    tx.write(SLIPS_KEY, slips.filter((entry) => entry.id !== slipId));
+  });
+}
+
+/** Where postponing `current` by `minutes` at `now` moves it. */
+function postponedHabit(current: Habit, now: Date, minutes: number): Habit {
+  const currentDue = new Date(current.dueAt);
+  const baseTime = currentDue.getTime() > now.getTime() ? currentDue.getTime() : now.getTime();
+  let nextDue = new Date(baseTime + minutes * 60_000);
+  // Only this occurrence moves; remember its slot so fixed and catch-up habits stay on their grid.
+  let scheduledAt: string | undefined = current.type === "task" ? undefined : current.scheduledAt ?? current.dueAt;
+
+  // A postponed calendar slot never runs past the following slot; it merges into it instead.
+  // Fixed and catch-up habits treat their interval grid the same way.
+  if (hasCalendarSchedule(current) || (current.type !== "task" && rescheduleModeOf(current) !== "from-completion")) {
+    const following =
+      rescheduleModeOf(current) === "from-completion"
+        ? nextOccurrence(current.schedule, current.intervalMinutes, new Date(baseTime))
+        : followingSlot(current, currentSlot(current));
+    if (following.getTime() > baseTime && nextDue.getTime() >= following.getTime()) {
+      nextDue = following;
+      scheduledAt = undefined;
+    }
+  }
+
+  return {
+    ...current,
+    dueAt: nextDue.toISOString(),
+    scheduledAt,
+    lastReminderAt: undefined,
+    reminderCount: undefined,
+  };
+}
+
+async function recordPostpone(tx: StorageTransaction, habitId: string, minutes: number): Promise<Habit> {
   const safeMinutes = Math.max(1, Math.floor(minutes));
-  const habits = await readCollection<Habit>(HABITS_KEY);
-  const postpones = await readCollection<PostponeRecord>(POSTPONES_KEY);
+  const habits = await tx.read<Habit>(HABITS_KEY);
+  const postpones = await tx.read<PostponeRecord>(POSTPONES_KEY);
   const index = habits.findIndex((habit) => habit.id === habitId);
 
   if (index < 0) {
@@ -197,43 +1129,161 @@ export async function postponeHabit(habitId: string, minutes: number): Promise<H
 
   const current = habits[index];
   const now = new Date();
-  const currentDue = new Date(current.dueAt);
-  const baseTime = currentDue.getTime() > now.getTime() ? currentDue.getTime() : now.getTime();
-  const nextDueAt = new Date(baseTime + safeMinutes * 60_000).toISOString();
-
   const postponed: PostponeRecord = {
     id: uid(),
     habitId,
     postponedAt: now.toISOString(),
     minutes: safeMinutes,
+    previousDueAt: current.dueAt,
+    previousScheduledAt: current.scheduledAt,
   };
 
   postpones.push(postponed);
 
-  const updated = {
-    ...current,
-    dueAt: nextDueAt,
-    lastReminderAt: undefined,
-  };
+  const updated = postponedHabit(current, now, safeMinutes);
 
   habits[index] = updated;
-  await writeCollection(HABITS_KEY, habits);
-  await writeCollection(POSTPONES_KEY, postpones);
+  tx.write(HABITS_KEY, habits);
+  tx.write(POSTPONES_KEY, postpones);
 
   return updated;
 }
 
+export async function postponeHabit(habitId: string, minutes: number): Promise<Journaled<Habit>> {
+  return transactJournaled(async (tx) => {
+    tx.journal(`Postpone ${await habitName(tx, habitId)}`);
+    return recordPostpone(tx, habitId, minutes);
+  });
+}
+
+/** Postpones several items as one undoable change, e.g. from the reminder digest. */
+export async function postponeHabits(habitIds: string[], minutes: number): Promise<Journaled<Habit[]>> {
+  return transactJournaled(async (tx) => {
+    tx.journal(`Postpone ${habitIds.length} items`);
+    const updated: Habit[] = [];
+    for (const habitId of habitIds) {
+      updated.push(await recordPostpone(tx, habitId, minutes));
+    }
+    return updated;
+  });
+}
+
 export async function setHabitLastReminder(habitId: string, atIso: string): Promise<void> {
-  const habits = await readCollection<Habit>(HABITS_KEY);
-  const index = habits.findIndex((habit) => habit.id === habitId);
-  if (index < 0) {
-    return;
-  }
+  await setHabitsLastReminder([habitId], atIso);
+}
 
-  habits[index] = {
-    ...habits[index],
-    lastReminderAt: atIso,
-  };
+export async function setHabitsLastReminder(habitIds: string[], atIso: string): Promise<void> {
+  const targets = new Set(habitIds);
+
+  await transact(async (tx) => {
+    const habits = await tx.read<Habit>(HABITS_KEY);
+    if (!habits.some((habit) => targets.has(habit.id))) {
+      return;
+    }
+
+    tx.write(
+      HABITS_KEY,
+      habits.map((habit) =>
+        targets.has(habit.id) ? { ...habit, lastReminderAt: atIso, reminderCount: (habit.reminderCount ?? 0) + 1 } : habit,
+      ),
+    );
+  });
+}
+
+/**
+ * Reverts the most recent journaled mutation (or `entryId`): records it added are removed and records
+ * it changed or deleted are restored. Returns the label of the undone change. Fails without changing
+ * anything when one of those records was changed again since, so later edits are never overwritten.
+ */
+export async function undoChange(entryId?: string): Promise<string | undefined> {
+  return transact(async (tx) => {
+    const journal = await tx.read<UndoEntry>(UNDO_KEY);
+    const entry = entryId ? journal.find((item) => item.id === entryId) : journal[journal.length - 1];
+    if (!entry) {
+      return undefined;
+    }
+
+    for (const change of entry.changes) {
+      if (!isUntouchedSince(change, await tx.read<IdentifiedRecord>(change.key))) {
+        throw new Error(`"${entry.label}" was followed by other changes to the same item`);
+      }
+    }
 
-  await writeCollection(HABITS_KEY, habits);
+    for (const change of entry.changes) {
+      const added = new Set(change.addedIds);
+      const restored = new Map(change.previous.map((record) => [record.id, record]));
+      const current = (await tx.read<IdentifiedRecord>(change.key)).filter((record) => !added.has(record.id));
+      const next = current.map((record) => restored.get(record.id) ?? record);
+      const present = new Set(next.map((record) => record.id));
+      tx.write(change.key, [...next, ...change.previous.filter((record) => !present.has(record.id))]);
+    }
+
+    tx.write(UNDO_KEY, journal.filter((item) => item.id !== entry.id));
+    return entry.label;
+  });
+}
+
+export async function loadDataSet(): Promise<RayminderDataSet> {
+  const [habits, sessions, completions, postpones, scores, slips] = await Promise.all([
+    readCollection<Habit>(HABITS_KEY),
+    readCollection<TimerSession>(SESSIONS_KEY),
+    readCollection<CompletionRecord>(COMPLETIONS_KEY),
+    readCollection<PostponeRecord>(POSTPONES_KEY),
+    readCollection<DailyScoreSnapshot>(SCORES_KEY),
+    readCollection<SlipRecord>(SLIPS_KEY),
+  ]);
+  return { habits, sessions, completions, postpones, scores, slips };
+}
+
+/**
+ * Replaces all collections with the result of `update`, computed from the data current under the lock.
+ * `clearUndo` empties the undo journal, whose entries would otherwise restore records of the old data.
+ */
+export async function updateDataSet(
+  update: (current: RayminderDataSet) => RayminderDataSet,
+  options: { clearUndo?: boolean } = {},
+): Promise<RayminderDataSet> {
+  return transact(async (tx) => {
+    const current: RayminderDataSet = {
+      habits: await tx.read<Habit>(HABITS_KEY),
+      sessions: await tx.read<TimerSession>(SESSIONS_KEY),
+      completions: await tx.read<CompletionRecord>(COMPLETIONS_KEY),
+      postpones: await tx.read<PostponeRecord>(POSTPONES_KEY),
+      scores: await tx.read<DailyScoreSnapshot>(SCORES_KEY),
+      slips: await tx.read<SlipRecord>(SLIPS_KEY),
+    };
+
+    const next = update(current);
+    tx.write(HABITS_KEY, next.habits);
+    tx.write(SESSIONS_KEY, next.sessions);
+    tx.write(COMPLETIONS_KEY, next.completions);
+    tx.write(POSTPONES_KEY, next.postpones);
+    tx.write(SCORES_KEY, next.scores);
+    tx.write(SLIPS_KEY, next.slips);
+    if (options.clearUndo) {
+      tx.write(UNDO_KEY, []);
+    }
+    return current;
+  });
+}
+
+export async function listHeldReminders(): Promise<HeldReminder[]> {
+  return readCollection<HeldReminder>(HELD_REMINDERS_KEY);
+}
+
+export async function holdReminders(habitIds: string[], atIso: string): Promise<void> {
+  await transact(async (tx) => {
+    const held = await tx.read<HeldReminder>(HELD_REMINDERS_KEY);
+    const known = new Set(held.map((entry) => entry.habitId));
+    const additions = habitIds.filter((habitId) => !known.has(habitId)).map((habitId) => ({ habitId, heldAt: atIso }));
+    if (additions.length > 0) {
+      tx.write(HELD_REMINDERS_KEY, [...held, ...additions]);
+    }
+  });
+}
+
+export async function clearHeldReminders(): Promise<void> {
+  await transact(async (tx) => {
+    tx.write<HeldReminder>(HELD_REMINDERS_KEY, []);
+  });
 }
@@ -0,0 +1,39 @@
+import { Habit } from "./types";
+
+export const UNCATEGORIZED = "Uncategorized";
+
+/** Splits "health, Morning , health" into unique trimmed, lower-cased tags. */
+export function parseTags(raw: string): string[] {
+  return normalizeTags(raw.split(","));
+}
+
+export function normalizeTags(tags: string[]): string[] {
+  return [...new Set(tags.map((tag) => tag.trim().toLowerCase()).filter(Boolean))];
+}
+
+export function collectTags(habits: Habit[]): string[] {
+  return normalizeTags(habits.flatMap((habit) => habit.tags ?? [])).sort();
+}
+
+export function collectCategories(habits: Habit[]): string[] {
+  return [...new Set(habits.map((habit) => habit.category?.trim()).filter((category): category is string => Boolean(category)))].sort(
+    (a, b) => a.localeCompare(b),
+  );
+}
+
+export function categoryOf(habit: Pick<Habit, "category">): string {
+  return habit.category?.trim() || UNCATEGORIZED;
+}
+
+/** Groups habits by category, keeping input order inside each group and putting uncategorized items last. */
+export function groupByCategory<T extends Pick<Habit, "category">>(items: T[]): { category: string; items: T[] }[] {
+  const groups = new Map<string, T[]>();
+  for (const item of items) {
+    const category = categoryOf(item);
+    groups.set(category, [...(groups.get(category) ?? []), item]);
+  }
+
+  return [...groups.entries()]
+    .sort(([a], [b]) => (a === UNCATEGORIZED ? 1 : b === UNCATEGORIZED ? -1 : a.localeCompare(b)))
+    .map(([category, grouped]) => ({ category, items: grouped }));
+}
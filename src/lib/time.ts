@@ -1,3 +1,6 @@
+import { getPreferenceValues } from "@raycast/api";
+import { HabitSchedule, RayminderPreferences, TimerSession } from "./types";
+
 export function minutesBetween(start: Date | string, end: Date | string): number {
   const startMs = typeof start === "string" ? new Date(start).getTime() : start.getTime();
   const endMs = typeof end === "string" ? new Date(end).getTime() : end.getTime();
@@ -10,9 +13,284 @@ export function secondsBetween(start: Date | string, end: Date | string): number
   return Math.max(0, Math.floor((endMs - startMs) / 1000));
 }
 
+export function isTimerPaused(session: TimerSession): boolean {
+  const pauses = session.pauses ?? [];
+  return pauses.length > 0 && !pauses[pauses.length - 1].resumedAt;
+}
+
+/** Elapsed timer time excluding paused segments; an open pause counts until `now`. */
+export function activeTimerSeconds(session: TimerSession, now: Date = new Date()): number {
+  const pausedSeconds = (session.pauses ?? []).reduce(
+    (total, pause) => total + secondsBetween(pause.pausedAt, pause.resumedAt ?? now),
+    0,
+  );
+  return Math.max(0, secondsBetween(session.startedAt, now) - pausedSeconds);
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Minutes after midnight at which a tracking day begins ("Day Starts At" preference); midnight when unset. */
+export function dayStartMinutes(): number {
+  const time = parseClockTime(getPreferenceValues<RayminderPreferences>().dayStartsAt ?? "");
+  return time ? time.hours * 60 + time.minutes : 0;
+}
+
+/**
+ * Start of the tracking day containing `date`. With a day start of 04:00, 00:30 still belongs to the
+ * previous day. Built from calendar fields rather than by subtracting milliseconds, so every day starts
+ * at the same wall-clock time across DST changes.
+ */
 export function startOfDay(date = new Date()): Date {
-  const start = new Date(date);
-  start.setHours(0, 0, 0, 0);
+  const offset = dayStartMinutes();
+  const start = new Date(date.getFullYear(), date.getMonth(), date.getDate(), 0, offset);
+  if (start.getTime() <= date.getTime()) {
+    return start;
+  }
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate() - 1, 0, offset);
+}
+
+export function addDays(date: Date, days: number): Date {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate() + days, date.getHours(), date.getMinutes());
+}
+
+/** Whole tracking days from the day of `start` to the day of `end`; rounded, so 23- and 25-hour DST days count once. */
+export function daysBetween(start: Date, end: Date): number {
+  return Math.round((startOfDay(end).getTime() - startOfDay(start).getTime()) / DAY_MS);
+}
+
+/** Monday of the week containing `date`, at the start of that day. */
+export function startOfWeek(date = new Date()): Date {
+  const start = startOfDay(date);
+  return addDays(start, -((start.getDay() + 6) % 7));
+}
+
+/** First day of the month containing `date` (shifted by `monthOffset` months), at the start of that day. */
+export function startOfMonth(date = new Date(), monthOffset = 0): Date {
+  const day = startOfDay(date);
+  return new Date(day.getFullYear(), day.getMonth() + monthOffset, 1, 0, dayStartMinutes());
+}
+
+/**
+ * Tracking-day key ("YYYY-MM-DD") used to bucket records by day: the calendar date on which the day
+ * containing `date` starts. All per-day grouping (score, stats, streaks, reports) goes through this.
+ */
+export function dayKey(date: Date | string = new Date()): string {
+  const start = startOfDay(typeof date === "string" ? new Date(date) : date);
+  const month = String(start.getMonth() + 1).padStart(2, "0");
+  const day = String(start.getDate()).padStart(2, "0");
+  return `${start.getFullYear()}-${month}-${day}`;
+}
+
+/** Inverse of `dayKey`: the start of the day identified by the key. */
+export function parseDayKey(key: string): Date {
+  const [year, month, day] = key.split("-").map((part) => Number.parseInt(part, 10));
+  return new Date(year, month - 1, day, 0, dayStartMinutes());
+}
+
+export function formatDayLabel(key: string): string {
+  return parseDayKey(key).toLocaleDateString([], {
+    weekday: "short",
+    month: "short",
+    day: "numeric",
+  });
+}
+
+export const WEEKDAY_LABELS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+export function parseClockTime(raw: string): { hours: number; minutes: number } | undefined {
+  const match = /^(\d{1,2}):(\d{2})$/.exec(raw.trim());
+  if (!match) {
+    return undefined;
+  }
+
+  const hours = Number.parseInt(match[1], 10);
+  const minutes = Number.parseInt(match[2], 10);
+  if (hours > 23 || minutes > 59) {
+    return undefined;
+  }
+  return { hours, minutes };
+}
+
+function sortedClockTimes(times: string[]): { hours: number; minutes: number }[] {
+  return times
+    .map(parseClockTime)
+    .filter((time): time is { hours: number; minutes: number } => Boolean(time))
+    .sort((a, b) => a.hours * 60 + a.minutes - (b.hours * 60 + b.minutes));
+}
+
+function firstTimeOnDay(
+  year: number,
+  month: number,
+  day: number,
+  times: { hours: number; minutes: number }[],
+  after: Date,
+): Date | undefined {
+  for (const time of times) {
+    const candidate = new Date(year, month, day, time.hours, time.minutes, 0, 0);
+    if (candidate.getTime() > after.getTime()) {
+      return candidate;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Returns the first occurrence of the schedule strictly after `from`.
+ * Interval schedules (or habits without a schedule) fall back to `from + intervalMinutes`.
+ */
+export function nextOccurrence(schedule: HabitSchedule | undefined, intervalMinutes: number, from = new Date()): Date {
+  const fallback = new Date(from.getTime() + Math.max(1, intervalMinutes) * 60_000);
+  if (!schedule || schedule.kind === "interval") {
+    return fallback;
+  }
+
+  const times = sortedClockTimes(schedule.times);
+  if (times.length === 0) {
+    return fallback;
+  }
+
+  const year = from.getFullYear();
+  const month = from.getMonth();
+  const day = from.getDate();
+
+  if (schedule.kind === "daily") {
+    for (let offset = 0; offset <= 1; offset += 1) {
+      const candidate = firstTimeOnDay(year, month, day + offset, times, from);
+      if (candidate) {
+        return candidate;
+      }
+    }
+    return fallback;
+  }
+
+  if (schedule.kind === "weekly") {
+    const weekdays = new Set(schedule.weekdays);
+    for (let offset = 0; offset <= 7; offset += 1) {
+      const weekday = new Date(year, month, day + offset).getDay();
+      if (!weekdays.has(weekday)) {
+        continue;
+      }
+      const candidate = firstTimeOnDay(year, month, day + offset, times, from);
+      if (candidate) {
+        return candidate;
+      }
+    }
+    return fallback;
+  }
+
+  for (let offset = 0; offset <= 12; offset += 1) {
+    const daysInMonth = new Date(year, month + offset + 1, 0).getDate();
+    const targetDay = Math.min(Math.max(1, schedule.dayOfMonth), daysInMonth);
+    const candidate = firstTimeOnDay(year, month + offset, targetDay, times, from);
+    if (candidate) {
+      return candidate;
+    }
+  }
+  return fallback;
+}
+
+/**
+ * Average spacing between occurrences, used where a calendar schedule still needs an interval
+ * (e.g. scaling the overdue penalty).
+ */
+export function approximateIntervalMinutes(schedule: HabitSchedule): number | undefined {
+  if (schedule.kind === "interval") {
+    return undefined;
+  }
+
+  const perDay = Math.max(1, schedule.times.length);
+  if (schedule.kind === "daily") {
+    return Math.round(1440 / perDay);
+  }
+  if (schedule.kind === "weekly") {
+    return Math.round(10_080 / (Math.max(1, schedule.weekdays.length) * perDay));
+  }
+  return Math.round(43_200 / perDay);
+}
+
+export function describeSchedule(schedule: HabitSchedule | undefined, intervalMinutes: number): string {
+  if (!schedule || schedule.kind === "interval") {
+    return `every ${intervalMinutes}m`;
+  }
+
+  const times = schedule.times.join(", ");
+  if (schedule.kind === "daily") {
+    return `daily at ${times}`;
+  }
+  if (schedule.kind === "weekly") {
+    const days = [...schedule.weekdays].sort((a, b) => a - b).map((weekday) => WEEKDAY_LABELS[weekday]);
+    return `${days.join("/")} at ${times}`;
+  }
+  return `monthly on day ${schedule.dayOfMonth} at ${times}`;
+}
+
+/** Parses a positive whole-number preference such as a minute count, falling back when it is blank or invalid. */
+export function safeInteger(raw: string | undefined, fallback: number): number {
+  const parsed = Number.parseInt(raw ?? "", 10);
+  if (Number.isNaN(parsed) || parsed <= 0) {
+    return fallback;
+  }
+  return parsed;
+}
+
+export interface TimeWindow {
+  startMinutes: number;
+  endMinutes: number;
+}
+
+/** Parses "HH:MM-HH:MM"; windows may wrap past midnight (e.g. 22:00-07:00). */
+export function parseTimeWindow(raw: string | undefined): TimeWindow | undefined {
+  const [startRaw, endRaw] = (raw ?? "").split("-");
+  const start = startRaw ? parseClockTime(startRaw) : undefined;
+  const end = endRaw ? parseClockTime(endRaw) : undefined;
+  if (!start || !end) {
+    return undefined;
+  }
+
+  const startMinutes = start.hours * 60 + start.minutes;
+  const endMinutes = end.hours * 60 + end.minutes;
+  return startMinutes === endMinutes ? undefined : { startMinutes, endMinutes };
+}
+
+function isWeekend(date: Date): boolean {
+  const weekday = date.getDay();
+  return weekday === 0 || weekday === 6;
+}
+
+/**
+ * A window belongs to the day it ends on, so Friday 22:00 – Saturday 09:00 is governed by the
+ * weekend window while Sunday 22:00 – Monday 07:00 is governed by the weekday window.
+ */
+export function isWithinQuietHours(now: Date, weekdayWindow?: TimeWindow, weekendWindow?: TimeWindow): boolean {
+  const windowEndingOn = (date: Date) => (isWeekend(date) ? weekendWindow : weekdayWindow);
+  const minuteOfDay = now.getHours() * 60 + now.getMinutes();
+
+  const today = windowEndingOn(now);
+  if (today) {
+    const wraps = today.startMinutes > today.endMinutes;
+    if (wraps && minuteOfDay < today.endMinutes) {
+      return true;
+    }
+    if (!wraps && minuteOfDay >= today.startMinutes && minuteOfDay < today.endMinutes) {
+      return true;
+    }
+  }
+
+  const tomorrow = windowEndingOn(new Date(now.getFullYear(), now.getMonth(), now.getDate() + 1));
+  return Boolean(tomorrow && tomorrow.startMinutes > tomorrow.endMinutes && minuteOfDay >= tomorrow.startMinutes);
+}
+
+/**
+ * First moment of `day` outside quiet hours: the start of the day, or the end of a window that covers the
+ * early morning past it.
+ */
+export function dayWindowStart(day: Date, weekdayWindow?: TimeWindow, weekendWindow?: TimeWindow): Date {
+  const start = startOfDay(day);
+  const window = isWeekend(start) ? weekendWindow : weekdayWindow;
+  if (window && (window.startMinutes > window.endMinutes || window.startMinutes === 0)) {
+    const windowEnd = new Date(start.getFullYear(), start.getMonth(), start.getDate(), 0, window.endMinutes);
+    return windowEnd.getTime() > start.getTime() ? windowEnd : start;
+  }
   return start;
 }
 
@@ -1,24 +1,95 @@
-export type TrackableType = "habit" | "task";
+/** Habits recur, tasks happen once, and avoid items track slips of something to stay away from. */
+export type TrackableType = "habit" | "task" | "avoid";
+
+export type Priority = "low" | "normal" | "high";
+
+export type ScoringStrategy = "progress" | "binary" | "streak";
+
+export type ReminderStyle = "toast" | "hud" | "silent";
+
+/** Per-item overrides for background reminders. Unset fields fall back to the extension preferences. */
+export interface ReminderPolicy {
+  style?: ReminderStyle;
+  throttleMinutes?: number;
+  /** Stop reminding after this many reminders until the item is completed or postponed. */
+  maxReminders?: number;
+  /** Once overdue this long, remind every `escalatedThrottleMinutes` instead. */
+  escalateAfterMinutes?: number;
+  escalatedThrottleMinutes?: number;
+}
+
+export type RescheduleMode = "from-completion" | "fixed" | "catch-up";
+
+export type TargetPeriod = "day" | "week" | "month";
+
+export type ScheduleKind = "interval" | "daily" | "weekly" | "monthly";
+
+export type HabitSchedule =
+  | { kind: "interval" }
+  | { kind: "daily"; times: string[] }
+  | { kind: "weekly"; weekdays: number[]; times: string[] }
+  | { kind: "monthly"; dayOfMonth: number; times: string[] };
+
+export interface ChecklistItem {
+  id: string;
+  title: string;
+  done: boolean;
+}
+
+/** A measurable habit logs amounts (e.g. 500 ml) toward a daily target instead of counting repetitions. */
+export interface HabitQuantity {
+  unit: string;
+  dailyTarget: number;
+}
 
 export interface Habit {
   id: string;
   name: string;
   type: TrackableType;
   intervalMinutes: number;
+  schedule?: HabitSchedule;
   targetRepetitionsPerDay: number;
   expectedDurationMinutes?: number;
   notes?: string;
+  ignoreQuietHours?: boolean;
+  category?: string;
+  tags?: string[];
+  priority?: Priority;
+  /** Absolute deadline of a task. When set, the task is due then instead of `intervalMinutes` after creation. */
+  deadline?: string;
+  checklist?: ChecklistItem[];
+  /** Completes the item as soon as the last checklist entry is ticked instead of asking first. */
+  checklistAutoComplete?: boolean;
+  /** Relative weight in the daily average; defaults to 1. */
+  scoreWeight?: number;
+  /** How the next occurrence is derived after a completion; defaults to "from-completion". */
+  rescheduleMode?: RescheduleMode;
+  /** Period `targetRepetitionsPerDay` counts over, e.g. 3 per week; defaults to "day". */
+  targetPeriod?: TargetPeriod;
+  quantity?: HabitQuantity;
   createdAt: string;
   dueAt: string;
+  /** Slot the current occurrence belongs to when `dueAt` was postponed away from it. */
+  scheduledAt?: string;
   lastCompletedAt?: string;
   lastReminderAt?: string;
+  /** Reminders shown since the item last became due. */
+  reminderCount?: number;
+  reminderPolicy?: ReminderPolicy;
   archived: boolean;
+  archivedAt?: string;
+}
+
+export interface TimerPause {
+  pausedAt: string;
+  resumedAt?: string;
 }
 
 export interface TimerSession {
   id: string;
   habitId: string;
   startedAt: string;
+  pauses?: TimerPause[];
 }
 
 export interface CompletionRecord {
@@ -27,6 +98,16 @@ export interface CompletionRecord {
   completedAt: string;
   durationSeconds: number;
   source: "manual" | "timer";
+  /** Amount logged for a measurable habit, in the habit's unit. */
+  quantity?: number;
+}
+
+/** A slip of an "avoid" item, e.g. a snack after 20:00. */
+export interface SlipRecord {
+  id: string;
+  habitId: string;
+  slippedAt: string;
+  note?: string;
 }
 
 export interface PostponeRecord {
@@ -34,14 +115,31 @@ export interface PostponeRecord {
   habitId: string;
   postponedAt: string;
   minutes: number;
+  /** The item's `dueAt` and `scheduledAt` before this postpone, so editing or deleting it can move the item back. */
+  previousDueAt?: string;
+  previousScheduledAt?: string;
 }
 
 export interface DailyScoreHabitBreakdown {
   habitId: string;
   name: string;
+  category?: string;
+  weight?: number;
   repetitions: number;
   repetitionTarget: number;
   repetitionProgress: number;
+  checklistProgress?: number;
+  /** Set for weekly and monthly targets, where the repetitions are those of the whole period so far. */
+  targetPeriod?: TargetPeriod;
+  /** Share of the period target expected by the start of today. */
+  periodPace?: number;
+  /** Set for measurable habits, whose progress is the logged amount against the daily target. */
+  quantity?: number;
+  quantityTarget?: number;
+  unit?: string;
+  /** Set for avoid items, which score by staying at zero slips. */
+  slips?: number;
+  daysClean?: number;
   durationMinutes: number;
   durationTargetMinutes: number;
   durationProgress: number;
@@ -53,22 +151,97 @@ export interface DailyScoreHabitBreakdown {
 export interface DailyScore {
   score: number;
   grade: string;
+  strategy?: ScoringStrategy;
   completedCount: number;
   totalTrackedMinutes: number;
   dueNowCount: number;
   breakdown: DailyScoreHabitBreakdown[];
+  categories?: DailyCategoryScore[];
+}
+
+export interface DailyCategoryScore {
+  category: string;
+  score: number;
+  habitCount: number;
+}
+
+export interface DailyScoreSnapshot extends DailyScore {
+  day: string;
+  capturedAt: string;
+}
+
+export interface RayminderDataSet {
+  habits: Habit[];
+  sessions: TimerSession[];
+  completions: CompletionRecord[];
+  postpones: PostponeRecord[];
+  scores: DailyScoreSnapshot[];
+  slips: SlipRecord[];
+}
+
+export interface UndoChange {
+  key: string;
+  previous: { id: string }[];
+  addedIds: string[];
+  /** The changed and added records as the change left them; undo refuses once they changed again. */
+  written?: { id: string }[];
+}
+
+export interface UndoEntry {
+  id: string;
+  label: string;
+  createdAt: string;
+  changes: UndoChange[];
+}
+
+export interface StorageIssue {
+  id: string;
+  key: string;
+  quarantineKey: string;
+  reason: string;
+  detectedAt: string;
+  acknowledged: boolean;
 }
 
 export interface HabitDraft {
   name: string;
   type: TrackableType;
   intervalMinutes: number;
+  schedule?: HabitSchedule;
   targetRepetitionsPerDay: number;
   expectedDurationMinutes?: number;
   notes?: string;
+  ignoreQuietHours?: boolean;
+  category?: string;
+  tags?: string[];
+  priority?: Priority;
+  deadline?: string;
+  checklist?: ChecklistItem[];
+  checklistAutoComplete?: boolean;
+  scoreWeight?: number;
+  reminderPolicy?: ReminderPolicy;
+  rescheduleMode?: RescheduleMode;
+  targetPeriod?: TargetPeriod;
+  quantity?: HabitQuantity;
+}
+
+export interface HeldReminder {
+  habitId: string;
+  heldAt: string;
 }
 
 export interface RayminderPreferences {
   defaultPostponeMinutes: string;
   reminderThrottleMinutes: string;
+  quietHoursWeekday?: string;
+  quietHoursWeekend?: string;
+  dayStartsAt?: string;
+  groupByCategory?: boolean;
+  scoringStrategy?: ScoringStrategy;
+  scoreRepetitionWeight?: string;
+  scorePostponePenalty?: string;
+  scorePostponePenaltyCap?: string;
+  scoreOverduePenalty?: string;
+  scoreOverduePenaltyCap?: string;
+  scoreGradeThresholds?: string;
 }
@@ -0,0 +1,214 @@
+import { Color, getPreferenceValues, Icon, launchCommand, LaunchType, MenuBarExtra, showHUD } from "@raycast/api";
+import { useCallback, useEffect, useState } from "react";
+import { isTargetMet } from "./lib/cadence";
+import { isAvoidItem } from "./lib/avoid";
+import { compareByPriority } from "./lib/priority";
+import { formatQuantity, isQuantityHabit, quickLogAmount } from "./lib/quantity";
+import { isOverdue } from "./lib/reminders";
+import {
+  completeHabit,
+  listCompletions,
+  listHabits,
+  listSessions,
+  logQuantity,
+  pauseHabitTimer,
+  postponeHabit,
+  resumeHabitTimer,
+  startHabitTimer,
+  stopHabitTimer,
+} from "./lib/storage";
+import { activeTimerSeconds, formatDuration, formatRelativeDue, isTimerPaused, safeInteger } from "./lib/time";
+import { CompletionRecord, Habit, HabitQuantity, RayminderPreferences, TimerSession } from "./lib/types";
+
+const UPCOMING_LIMIT = 10;
+
+/** Minute precision only: the menu bar title is refreshed once a minute. */
+function elapsedLabel(seconds: number): string {
+  const minutes = Math.floor(seconds / 60);
+  return minutes >= 60 ? `${Math.floor(minutes / 60)}h ${String(minutes % 60).padStart(2, "0")}m` : `${minutes}m`;
+}
+
+export default function MenuBarCommand() {
+  const preferences = getPreferenceValues<RayminderPreferences>();
+  const defaultPostponeMinutes = safeInteger(preferences.defaultPostponeMinutes, 15);
+
+  const [isLoading, setIsLoading] = useState(true);
+  const [habits, setHabits] = useState<Habit[]>([]);
+  const [sessions, setSessions] = useState<TimerSession[]>([]);
+  const [completions, setCompletions] = useState<CompletionRecord[]>([]);
+  const now = new Date();
+
+  const refresh = useCallback(async () => {
+    const [nextHabits, nextSessions, nextCompletions] = await Promise.all([
+      listHabits(false),
+      listSessions(),
+      listCompletions(),
+    ]);
+    setHabits(nextHabits);
+    setSessions(nextSessions);
+    setCompletions(nextCompletions);
+  }, []);
+
+  useEffect(() => {
+    refresh()
+      .catch((error) => showHUD(`Unable to load items: ${error instanceof Error ? error.message : String(error)}`))
+      .finally(() => setIsLoading(false));
+  }, [refresh]);
+
+  /** Runs a menu action, reports it in a HUD and reloads the menu. */
+  async function run(failureTitle: string, work: () => Promise<string>) {
+    try {
+      await showHUD(await work());
+      await refresh();
+    } catch (error) {
+      await showHUD(`${failureTitle}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  const runningHabits = new Set(sessions.map((session) => session.habitId));
+
+  const dueHabits = habits
+    .filter((habit) => isOverdue(habit, now) && !runningHabits.has(habit.id))
+    .sort(compareByPriority);
+  const upcomingHabits = habits
+    .filter(
+      (habit) =>
+        !isAvoidItem(habit) &&
+        new Date(habit.dueAt).getTime() > now.getTime() &&
+        !runningHabits.has(habit.id) &&
+        !isTargetMet(habit, completions, now),
+    )
+    .sort((a, b) => new Date(a.dueAt).getTime() - new Date(b.dueAt).getTime())
+    .slice(0, UPCOMING_LIMIT);
+  const timers = sessions
+    .map((session) => ({ session, habit: habits.find((habit) => habit.id === session.habitId) }))
+    .filter((item): item is { session: TimerSession; habit: Habit } => Boolean(item.habit));
+
+  const longestTimer = timers.reduce<number | undefined>(
+    (max, { session }) => Math.max(max ?? 0, activeTimerSeconds(session, now)),
+    undefined,
+  );
+  const title = [
+    dueHabits.length > 0 ? String(dueHabits.length) : undefined,
+    longestTimer !== undefined ? `⏱ ${elapsedLabel(longestTimer)}` : undefined,
+  ]
+    .filter(Boolean)
+    .join(" · ");
+
+  async function complete(habit: Habit) {
+    await run("Unable to complete", async () => {
+      await completeHabit(habit.id, { source: "manual" });
+      return `Completed: ${habit.name}`;
+    });
+  }
+
+  async function logAmount(habit: Habit & { quantity: HabitQuantity }, amount: number) {
+    await run("Unable to log amount", async () => {
+      await logQuantity(habit.id, amount);
+      return `Logged ${formatQuantity(amount, habit.quantity.unit)}: ${habit.name}`;
+    });
+  }
+
+  async function postpone(habit: Habit) {
+    await run("Unable to postpone", async () => {
+      await postponeHabit(habit.id, defaultPostponeMinutes);
+      return `Postponed ${defaultPostponeMinutes}m: ${habit.name}`;
+    });
+  }
+
+  async function startTimer(habit: Habit) {
+    await run("Unable to start timer", async () => {
+      await startHabitTimer(habit.id);
+      return `Timer started: ${habit.name}`;
+    });
+  }
+
+  async function stopTimer(habit: Habit) {
+    await run("Unable to stop timer", async () => {
+      const { result: completion } = await stopHabitTimer(habit.id);
+      return `Completed: ${habit.name} (${formatDuration(completion.durationSeconds)})`;
+    });
+  }
+
+  async function togglePause(habit: Habit, session: TimerSession) {
+    const paused = isTimerPaused(session);
+    await run(paused ? "Unable to resume timer" : "Unable to pause timer", async () => {
+      await (paused ? resumeHabitTimer(habit.id) : pauseHabitTimer(habit.id));
+      return `${paused ? "Resumed" : "Paused"}: ${habit.name}`;
+    });
+  }
+
+  function habitMenu(habit: Habit, showPostpone: boolean) {
+    return (
+      <MenuBarExtra.Submenu
+        key={habit.id}
+        icon={habit.type === "task" ? Icon.Checkmark : Icon.Repeat}
+        title={`${habit.name} — ${formatRelativeDue(habit.dueAt, now)}`}
+      >
+        {isQuantityHabit(habit) && (
+          <MenuBarExtra.Item
+            title={`Log ${formatQuantity(quickLogAmount(habit), habit.quantity.unit)}`}
+            icon={Icon.PlusCircle}
+            onAction={() => logAmount(habit, quickLogAmount(habit))}
+          />
+        )}
+        <MenuBarExtra.Item title="Mark Complete" icon={Icon.CheckCircle} onAction={() => complete(habit)} />
+        {showPostpone && (
+          <MenuBarExtra.Item
+            title={`Postpone ${defaultPostponeMinutes}m`}
+            icon={Icon.Clock}
+            onAction={() => postpone(habit)}
+          />
+        )}
+        <MenuBarExtra.Item title="Start Timer" icon={Icon.Play} onAction={() => startTimer(habit)} />
+      </MenuBarExtra.Submenu>
+    );
+  }
+
+  return (
+    <MenuBarExtra
+      isLoading={isLoading}
+      icon={{ source: Icon.Alarm, tintColor: dueHabits.length > 0 ? Color.Red : undefined }}
+      title={title || undefined}
+      tooltip={`${dueHabits.length} due now`}
+    >
+      <MenuBarExtra.Section title={`Due Now (${dueHabits.length})`}>
+        {dueHabits.length === 0 && <MenuBarExtra.Item title="Nothing due" />}
+        {dueHabits.map((habit) => habitMenu(habit, true))}
+      </MenuBarExtra.Section>
+      {timers.length > 0 && (
+        <MenuBarExtra.Section title="Active Timers">
+          {timers.map(({ habit, session }) => (
+            <MenuBarExtra.Submenu
+              key={session.id}
+              icon={isTimerPaused(session) ? Icon.Pause : Icon.Stopwatch}
+              title={`${habit.name} — ${elapsedLabel(activeTimerSeconds(session, now))}${
+                isTimerPaused(session) ? " (paused)" : ""
+              }`}
+            >
+              <MenuBarExtra.Item title="Stop and Complete" icon={Icon.Stop} onAction={() => stopTimer(habit)} />
+              <MenuBarExtra.Item
+                title={isTimerPaused(session) ? "Resume Timer" : "Pause Timer"}
+                icon={isTimerPaused(session) ? Icon.Play : Icon.Pause}
+                onAction={() => togglePause(habit, session)}
+              />
+            </MenuBarExtra.Submenu>
+          ))}
+        </MenuBarExtra.Section>
+      )}
+      {upcomingHabits.length > 0 && (
+        <MenuBarExtra.Section title="Upcoming">
+          {upcomingHabits.map((habit) => habitMenu(habit, false))}
+        </MenuBarExtra.Section>
+      )}
+      <MenuBarExtra.Section>
+        <MenuBarExtra.Item
+          title="Open Dashboard"
+          icon={Icon.AppWindowList}
+          shortcut={{ modifiers: ["cmd"], key: "o" }}
+          onAction={() => launchCommand({ name: "dashboard", type: LaunchType.UserInitiated })}
+        />
+      </MenuBarExtra.Section>
+    </MenuBarExtra>
+  );
+}
@@ -1,5 +1,65 @@
+import { Action, ActionPanel, Detail, Icon, LaunchProps, popToRoot, showToast, Toast } from "@raycast/api";
+import { useMemo, useState } from "react";
 import { HabitForm } from "./components/HabitForm";
+import { parseHabitPhrase } from "./lib/parse";
+import { upsertHabit } from "./lib/storage";
 
-export default function QuickAddCommand() {
-  return <HabitForm />;
+type QuickAddProps = LaunchProps<{ arguments: { text?: string } }>;
+
+export default function QuickAddCommand(props: QuickAddProps) {
+  const text = props.arguments.text?.trim() ?? "";
+  if (!text) {
+    return <HabitForm />;
+  }
+  return <QuickAddPreview text={text} />;
+}
+
+function QuickAddPreview({ text }: { text: string }) {
+  const [isSaving, setIsSaving] = useState(false);
+  const parsed = useMemo(() => parseHabitPhrase(text), [text]);
+  const { draft } = parsed;
+
+  const markdown = [
+    `# ${draft.name || "_Unnamed_"}`,
+    `> ${text}`,
+    "",
+    ...parsed.understood.map((line) => `- ${line}`),
+    "",
+    draft.name ? "Create it as shown, or open the full form to adjust." : "No name was recognized. Open the full form to finish.",
+  ].join("\n");
+
+  async function create() {
+    setIsSaving(true);
+    try {
+      await upsertHabit(draft);
+      await showToast({
+        style: Toast.Style.Success,
+        title: draft.type === "task" ? "Task created" : "Habit created",
+        message: draft.name,
+      });
+      await popToRoot();
+    } catch (error) {
+      await showToast({
+        style: Toast.Style.Failure,
+        title: "Unable to save",
+        message: error instanceof Error ? error.message : String(error),
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  }
+
+  return (
+    <Detail
+      navigationTitle="Quick Add"
+      isLoading={isSaving}
+      markdown={markdown}
+      actions={
+        <ActionPanel>
+          {draft.name ? <Action title="Create" icon={Icon.Plus} onAction={create} /> : null}
+          <Action.Push title="Edit in Full Form" icon={Icon.Pencil} target={<HabitForm draft={draft} />} />
+        </ActionPanel>
+      }
+    />
+  );
 }
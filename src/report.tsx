@@ -0,0 +1,90 @@
+import { Action, ActionPanel, Icon, List, showInFinder, showToast, Toast } from "@raycast/api";
+import { writeFile } from "fs/promises";
+import { homedir } from "os";
+import { join } from "path";
+import { useEffect, useMemo, useState } from "react";
+import { buildReport, ReportData, reportPeriod, ReportPeriodKind } from "./lib/report";
+import { listCompletions, listHabits, listPostpones } from "./lib/storage";
+
+const PERIOD_COUNT = 12;
+
+async function saveReport(fileKey: string, markdown: string) {
+  try {
+    const path = join(homedir(), "Downloads", `rayminder-report-${fileKey}.md`);
+    await writeFile(path, markdown, "utf8");
+    const toast = await showToast({ style: Toast.Style.Success, title: "Report saved", message: path });
+    toast.primaryAction = {
+      title: "Show in Finder",
+      onAction: () => showInFinder(path),
+    };
+  } catch (error) {
+    await showToast({
+      style: Toast.Style.Failure,
+      title: "Unable to save report",
+      message: error instanceof Error ? error.message : String(error),
+    });
+  }
+}
+
+export default function ReportCommand() {
+  const [isLoading, setIsLoading] = useState(true);
+  const [data, setData] = useState<ReportData>({ habits: [], completions: [], postpones: [] });
+  const [kind, setKind] = useState<ReportPeriodKind>("week");
+
+  useEffect(() => {
+    Promise.all([listHabits(true), listCompletions(), listPostpones()])
+      .then(([habits, completions, postpones]) => setData({ habits, completions, postpones }))
+      .catch((error) =>
+        showToast({
+          style: Toast.Style.Failure,
+          title: "Unable to load report",
+          message: error instanceof Error ? error.message : String(error),
+        }),
+      )
+      .finally(() => setIsLoading(false));
+  }, []);
+
+  const reports = useMemo(() => {
+    const now = new Date();
+    return Array.from({ length: PERIOD_COUNT }, (_, index) => {
+      const period = reportPeriod(kind, -index, now);
+      return { period, markdown: buildReport(period, data, now) };
+    });
+  }, [data, kind]);
+
+  return (
+    <List
+      isShowingDetail
+      isLoading={isLoading}
+      navigationTitle="Rayminder Report"
+      searchBarPlaceholder="Search periods"
+      searchBarAccessory={
+        <List.Dropdown tooltip="Period" storeValue onChange={(value) => setKind(value as ReportPeriodKind)}>
+          <List.Dropdown.Item value="week" title="Weekly" />
+          <List.Dropdown.Item value="month" title="Monthly" />
+        </List.Dropdown>
+      }
+    >
+      {reports.map(({ period, markdown }, index) => (
+        <List.Item
+          key={period.key}
+          icon={Icon.Document}
+          title={period.label}
+          accessories={index === 0 ? [{ tag: kind === "week" ? "This week" : "This month" }] : undefined}
+          detail={<List.Item.Detail markdown={markdown} />}
+          actions={
+            <ActionPanel>
+              <Action.CopyToClipboard title="Copy as Markdown" content={markdown} />
+              <Action
+                title="Save to File"
+                icon={Icon.SaveDocument}
+                shortcut={{ modifiers: ["cmd"], key: "s" }}
+                onAction={() => saveReport(period.key, markdown)}
+              />
+            </ActionPanel>
+          }
+        />
+      ))}
+    </List>
+  );
+}